@@ -2,8 +2,14 @@
 import { mkdirSync } from 'node:fs';
 import { dirname, join, resolve } from 'node:path';
 import { Command } from 'commander';
-import { getBenchmarkPackConfig, runSuite, writeReport } from '@mcp-agent-eval/runner';
-import type { BenchmarkPack, McpTransportConfig } from '@mcp-agent-eval/schemas';
+import {
+  discoverBenchmarkPacks,
+  getBenchmarkPackConfig,
+  loadCapabilityMap,
+  runSuite,
+  writeReport
+} from '@mcp-agent-eval/runner';
+import type { BenchmarkPack, CaseSelector, McpTransportConfig, RunConfigInput } from '@mcp-agent-eval/schemas';
 
 async function ingestReport(input: {
   ingestUrl: string;
@@ -65,13 +71,78 @@ function buildTransportConfig(options: {
   );
 }
 
+function buildModelProviderConfig(options: {
+  provider?: string;
+  fixture?: string;
+  baseUrl?: string;
+  apiKeyEnv?: string;
+  flagPrefix: string;
+  workspaceRoot: string;
+}): RunConfigInput['modelProvider'] {
+  if (!options.provider) return undefined;
+
+  if (options.provider === 'scripted') {
+    if (!options.fixture) {
+      throw new Error(`scripted provider requires --${options.flagPrefix}-fixture <path>.`);
+    }
+    return { type: 'scripted', fixturePath: resolve(options.workspaceRoot, options.fixture) };
+  }
+
+  if (options.provider === 'openai' || options.provider === 'anthropic') {
+    return {
+      type: options.provider,
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+      ...(options.apiKeyEnv ? { apiKeyEnv: options.apiKeyEnv } : {})
+    };
+  }
+
+  throw new Error(
+    `Unknown ${options.flagPrefix} provider: ${options.provider}. Valid values: scripted, openai, anthropic`
+  );
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+// Categories and difficulties are validated by runSuite against the case schema.
+function buildCaseSelector(options: {
+  tags?: string;
+  categories?: string;
+  difficulties?: string;
+  ids?: string;
+}): CaseSelector {
+  const selector = {
+    tags: splitList(options.tags),
+    categories: splitList(options.categories) as CaseSelector['categories'],
+    difficulties: splitList(options.difficulties) as CaseSelector['difficulties'],
+    ids: splitList(options.ids)
+  };
+  return Object.fromEntries(Object.entries(selector).filter(([, value]) => value !== undefined));
+}
+
 const program = new Command();
 
 program
   .name('run-suite')
   .description('Run MCP agent evaluation suite')
   .option('--suite <name>', 'suite name', 'general')
-  .option('--pack <name>', 'benchmark pack id (e.g., general)', 'general')
+  .option('--pack <name>', 'benchmark pack id (see --list-packs)', 'general')
+  .option('--packs <path>', 'directory of benchmark packs, one pack.json per subdirectory', 'cases')
+  .option('--list-packs', 'print the benchmark packs found under --packs and exit')
+  .option('--expect-pack-hash <hash>', 'refuse to run unless the pack and its cases hash to this value')
+  .option('--tags <list>', 'run only cases with any of these comma-separated tags')
+  .option('--exclude-tags <list>', 'skip cases with any of these comma-separated tags')
+  .option('--category <list>', 'run only these categories: deterministic, epistemic, safety')
+  .option('--exclude-category <list>', 'skip these categories')
+  .option('--difficulty <list>', 'run only these difficulties: easy, medium, hard')
+  .option('--exclude-difficulty <list>', 'skip these difficulties')
+  .option('--ids <globs>', 'run only cases whose id matches one of these comma-separated globs')
+  .option('--exclude-ids <globs>', 'skip cases whose id matches one of these globs')
   .option('--server <name>', 'MCP server identifier', 'mcp-local')
   .option('--model <name>', 'model identifier', 'chatgpt-or-claude')
   .option('--cases <path>', 'path to eval cases (defaults to selected pack path)')
@@ -81,6 +152,41 @@ program
   .option('--ingest-url <url>', 'POST endpoint for report ingestion')
   .option('--ingest-key <key>', 'Bearer token for ingestion auth')
   .option('--dry-run', 'run with dry-run MCP adapter (no live server needed)', false)
+  .option('--record <path>', 'record MCP traffic to a cassette file while running against a live server')
+  .option('--replay <path>', 'replay MCP traffic from a cassette file instead of connecting to a server')
+  .option('--max-turns <n>', 'maximum agent turns per case', '8')
+  .option('--trials <n>', 'number of times to run each case', '1')
+  .option('--concurrency <n>', 'number of cases to run in parallel, each with its own MCP session', '1')
+  .option('--connect-timeout <ms>', 'MCP connect and tool discovery timeout in milliseconds', '30000')
+  .option('--tool-timeout <ms>', 'per-tool-call timeout in milliseconds', '60000')
+  .option('--case-timeout <ms>', 'per-case wall-clock timeout in milliseconds', '300000')
+  .option('--retry-attempts <n>', 'maximum attempts per tool call, including the first', '1')
+  .option('--retry-backoff <ms>', 'delay before the first retry, doubled on each later retry', '250')
+  .option(
+    '--retry-on <kinds>',
+    'comma-separated retryable failures: timeout, transport_error, tool_error',
+    'timeout,transport_error'
+  )
+  .option(
+    '--model-provider <type>',
+    'model provider: scripted | openai | anthropic (default: built-in dry-run model)'
+  )
+  .option('--model-fixture <path>', 'canned assistant turns for the scripted provider')
+  .option('--model-base-url <url>', 'base URL for openai/anthropic-compatible providers')
+  .option('--model-api-key-env <name>', 'environment variable holding the model API key')
+  .option(
+    '--judge-provider <type>',
+    'epistemic judge provider: scripted | openai | anthropic (default: heuristic judge)'
+  )
+  .option('--judge-model <name>', 'model id for the epistemic judge (defaults to --model)')
+  .option('--judge-fixture <path>', 'canned judge replies for the scripted judge provider')
+  .option('--judge-base-url <url>', 'base URL for the judge provider')
+  .option('--judge-api-key-env <name>', 'environment variable holding the judge API key')
+  .option(
+    '--capability-map <path>',
+    'JSON or YAML file mapping tool names or globs to capabilities, with argument hints and aliases'
+  )
+  .option('--keep-workspaces', 'keep per-case workspace directories of live stdio servers after the run', false)
   .option(
     '--transport <type>',
     'MCP transport type: stdio | sse | streamable-http (default: stdio)'
@@ -100,17 +206,104 @@ program
   .action(async (options) => {
     const workspaceRoot = process.env.INIT_CWD ?? process.cwd();
     const reportPath = resolve(workspaceRoot, options.out);
+    const packsPath = resolve(workspaceRoot, options.packs);
+    if (options.listPacks) {
+      for (const pack of discoverBenchmarkPacks(packsPath)) {
+        console.log(`${pack.id}@${pack.version}  ${pack.defaultCasesPath}  ${pack.description}`);
+      }
+      return;
+    }
     const benchmarkPack = options.pack as BenchmarkPack;
-    const defaultCasesPath = getBenchmarkPackConfig(benchmarkPack).defaultCasesPath;
-    const casesPath = resolve(workspaceRoot, options.cases ?? defaultCasesPath);
+    const casesPath = options.cases
+      ? resolve(workspaceRoot, options.cases)
+      : getBenchmarkPackConfig(benchmarkPack, packsPath).defaultCasesPath;
+    const maxTurns = Number(options.maxTurns);
+    if (!Number.isInteger(maxTurns) || maxTurns < 1) {
+      throw new Error('--max-turns must be an integer >= 1');
+    }
+    const trials = Number(options.trials);
+    if (!Number.isInteger(trials) || trials < 1) {
+      throw new Error('--trials must be an integer >= 1');
+    }
+    const concurrency = Number(options.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('--concurrency must be an integer >= 1');
+    }
+    const timeouts = {
+      connectMs: Number(options.connectTimeout),
+      toolCallMs: Number(options.toolTimeout),
+      caseMs: Number(options.caseTimeout)
+    };
+    if (!Object.values(timeouts).every((value) => Number.isInteger(value) && value >= 1)) {
+      throw new Error('--connect-timeout, --tool-timeout and --case-timeout must be integers >= 1');
+    }
+    const retry = {
+      maxAttempts: Number(options.retryAttempts),
+      backoffMs: Number(options.retryBackoff),
+      retryOn: String(options.retryOn)
+        .split(',')
+        .map((kind) => kind.trim())
+        .filter((kind) => kind.length > 0)
+    };
+    if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+      throw new Error('--retry-attempts must be an integer >= 1');
+    }
+    if (!Number.isInteger(retry.backoffMs) || retry.backoffMs < 0) {
+      throw new Error('--retry-backoff must be an integer >= 0');
+    }
+    if (options.record && options.replay) {
+      throw new Error('--record and --replay cannot be combined');
+    }
+    if (options.replay && options.dryRun) {
+      throw new Error('--replay cannot be combined with --dry-run');
+    }
+    const cassette = options.record
+      ? { mode: 'record' as const, path: resolve(workspaceRoot, options.record) }
+      : options.replay
+        ? { mode: 'replay' as const, path: resolve(workspaceRoot, options.replay) }
+        : undefined;
+    const include = buildCaseSelector({
+      tags: options.tags,
+      categories: options.category,
+      difficulties: options.difficulty,
+      ids: options.ids
+    });
+    const exclude = buildCaseSelector({
+      tags: options.excludeTags,
+      categories: options.excludeCategory,
+      difficulties: options.excludeDifficulty,
+      ids: options.excludeIds
+    });
+    const caseFilter =
+      Object.keys(include).length > 0 || Object.keys(exclude).length > 0 ? { include, exclude } : undefined;
     mkdirSync(dirname(reportPath), { recursive: true });
 
-    const mcpTransportConfig = buildTransportConfig({
-      transport: options.transport,
-      mcpCommand: options.mcpCommand,
-      mcpArgs: options.mcpArgs,
-      mcpUrl: options.mcpUrl,
-      dryRun: Boolean(options.dryRun)
+    // Replays never connect, so they need no transport.
+    const mcpTransportConfig =
+      cassette?.mode === 'replay'
+        ? undefined
+        : buildTransportConfig({
+            transport: options.transport,
+            mcpCommand: options.mcpCommand,
+            mcpArgs: options.mcpArgs,
+            mcpUrl: options.mcpUrl,
+            dryRun: Boolean(options.dryRun)
+          });
+    const modelProvider = buildModelProviderConfig({
+      provider: options.modelProvider,
+      fixture: options.modelFixture,
+      baseUrl: options.modelBaseUrl,
+      apiKeyEnv: options.modelApiKeyEnv,
+      flagPrefix: 'model',
+      workspaceRoot
+    });
+    const judgeProvider = buildModelProviderConfig({
+      provider: options.judgeProvider,
+      fixture: options.judgeFixture,
+      baseUrl: options.judgeBaseUrl,
+      apiKeyEnv: options.judgeApiKeyEnv,
+      flagPrefix: 'judge',
+      workspaceRoot
     });
 
     const report = await runSuite({
@@ -119,8 +312,22 @@ program
       serverName: options.server,
       modelName: options.model,
       casesPath,
+      packsPath,
+      caseFilter,
+      expectedPackHash: options.expectPackHash,
       dryRun: Boolean(options.dryRun),
-      deterministicWeight: 0.7,
+      maxTurns,
+      trials,
+      concurrency,
+      timeouts,
+      retry: retry as RunConfigInput['retry'],
+      modelProvider,
+      judge: judgeProvider
+        ? { type: 'model', modelName: options.judgeModel ?? options.model, provider: judgeProvider }
+        : { type: 'heuristic' },
+      keepWorkspaces: Boolean(options.keepWorkspaces),
+      capabilityMap: options.capabilityMap ? loadCapabilityMap(resolve(workspaceRoot, options.capabilityMap)) : undefined,
+      cassette,
       mcpTransportConfig
     });
 
@@ -141,9 +348,27 @@ program
       { metric: 'failed', value: report.summary.failed },
       { metric: 'score', value: report.summary.score.toFixed(3) },
       { metric: 'mechanistic', value: report.summary.deterministicScore.toFixed(3) },
-      { metric: 'epistemic', value: report.summary.epistemicScore.toFixed(3) }
+      { metric: 'epistemic', value: report.summary.epistemicScore.toFixed(3) },
+      ...(report.summary.trials > 1
+        ? [
+            { metric: 'trials', value: report.summary.trials },
+            {
+              metric: 'score 95% CI',
+              value: `${report.summary.confidence.score.lower.toFixed(3)}–${report.summary.confidence.score.upper.toFixed(3)}`
+            }
+          ]
+        : [])
     ]);
 
+    console.log(`Pack ${report.benchmarkPack}@${report.packVersion} hash ${report.packHash}`);
+    if (report.selection) {
+      console.log(`Case filter selected ${report.selection.selected} of ${report.selection.total} cases`);
+    }
+    for (const invalid of report.invalidCases) {
+      for (const issue of invalid.issues) {
+        console.warn(`Invalid case ${invalid.file}${issue.path ? ` at ${issue.path}` : ''}: ${issue.message}`);
+      }
+    }
     console.log(`Report written to ${join('.', options.out)}`);
     if (options.ingestUrl) {
       console.log(`Report ingested to ${options.ingestUrl}`);
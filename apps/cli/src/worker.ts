@@ -3,7 +3,7 @@ import { resolve } from 'node:path';
 import { hostname } from 'node:os';
 import { Command } from 'commander';
 import { getBenchmarkPackConfig, runSuite } from '@mcp-agent-eval/runner';
-import type { BenchmarkPack, McpTransportConfig } from '@mcp-agent-eval/schemas';
+import type { BenchmarkPack, McpTransportConfig, RunConfigInput } from '@mcp-agent-eval/schemas';
 
 interface WorkerJobConfig {
   suiteName: string;
@@ -11,8 +11,18 @@ interface WorkerJobConfig {
   serverName: string;
   modelName: string;
   casesPath?: string;
+  caseFilter?: RunConfigInput['caseFilter'];
   dryRun: boolean;
-  deterministicWeight: number;
+  deterministicWeight?: number;
+  maxTurns?: number;
+  trials?: number;
+  concurrency?: number;
+  timeouts?: RunConfigInput['timeouts'];
+  retry?: RunConfigInput['retry'];
+  modelProvider?: RunConfigInput['modelProvider'];
+  judge?: RunConfigInput['judge'];
+  keepWorkspaces?: boolean;
+  capabilityMap?: RunConfigInput['capabilityMap'];
   mcpTransportConfig?: McpTransportConfig;
 }
 
@@ -89,12 +99,31 @@ async function sendHeartbeat(input: {
   });
 }
 
-function resolveCasesPath(config: WorkerJobConfig, workspaceRoot: string): string {
+function resolveCasesPath(config: WorkerJobConfig, workspaceRoot: string, packsPath: string): string {
   if (config.casesPath) {
     return resolve(workspaceRoot, config.casesPath);
   }
 
-  return resolve(workspaceRoot, getBenchmarkPackConfig(config.benchmarkPack).defaultCasesPath);
+  return getBenchmarkPackConfig(config.benchmarkPack, packsPath).defaultCasesPath;
+}
+
+function resolveModelProvider(
+  provider: RunConfigInput['modelProvider'],
+  workspaceRoot: string
+): RunConfigInput['modelProvider'] {
+  if (provider?.type === 'scripted') {
+    return { ...provider, fixturePath: resolve(workspaceRoot, provider.fixturePath) };
+  }
+
+  return provider;
+}
+
+function resolveJudge(judge: RunConfigInput['judge'], workspaceRoot: string): RunConfigInput['judge'] {
+  if (judge?.type === 'model') {
+    return { ...judge, provider: resolveModelProvider(judge.provider, workspaceRoot) ?? judge.provider };
+  }
+
+  return judge;
 }
 
 async function claimNextJob(input: {
@@ -187,6 +216,7 @@ program
   .option('--poll-interval-ms <ms>', 'Polling interval in milliseconds', '3000')
   .option('--worker-id <id>', 'Worker identifier', `${hostname()}-${process.pid}`)
   .option('--once', 'Claim and execute at most one job, then exit', false)
+  .option('--packs <path>', 'Directory of benchmark packs, one pack.json per subdirectory', 'cases')
   .action(async (options) => {
     const controlPlaneUrl = options.controlPlane as string;
     const apiKey = options.apiKey as string | undefined;
@@ -195,6 +225,7 @@ program
     const workerId = options.workerId as string;
     const runOnce = Boolean(options.once);
     const workspaceRoot = process.env.INIT_CWD ?? process.cwd();
+    const packsPath = resolve(workspaceRoot, options.packs);
 
     if (Number.isNaN(pollIntervalMs) || pollIntervalMs < 250) {
       throw new Error('--poll-interval-ms must be a number >= 250');
@@ -245,12 +276,35 @@ program
           benchmarkPack,
           serverName: job.config.serverName,
           modelName: job.config.modelName,
-          casesPath: resolveCasesPath(job.config, workspaceRoot),
+          casesPath: resolveCasesPath(job.config, workspaceRoot, packsPath),
+          packsPath,
+          caseFilter: job.config.caseFilter,
           dryRun: job.config.dryRun,
           deterministicWeight: job.config.deterministicWeight,
+          maxTurns: job.config.maxTurns,
+          trials: job.config.trials,
+          concurrency: job.config.concurrency,
+          timeouts: job.config.timeouts,
+          retry: job.config.retry,
+          modelProvider: resolveModelProvider(job.config.modelProvider, workspaceRoot),
+          judge: resolveJudge(job.config.judge, workspaceRoot),
+          keepWorkspaces: job.config.keepWorkspaces,
+          capabilityMap: job.config.capabilityMap,
           mcpTransportConfig: job.config.mcpTransportConfig
         });
 
+        if (report.invalidCases.length > 0) {
+          await postJobEvent({
+            controlPlaneUrl,
+            jobId: job.id,
+            apiKey,
+            workerId,
+            workerToken,
+            level: 'warning',
+            message: `Skipped invalid case file(s): ${report.invalidCases.map((invalid) => invalid.file).join(', ')}`
+          });
+        }
+
         await postJobEvent({
           controlPlaneUrl,
           jobId: job.id,
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { join } from 'node:path';
+import { discoverBenchmarkPacks } from '../../../../../packages/runner/dist/index.js';
+import type { BenchmarkPackInfo } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const packs: BenchmarkPackInfo[] = discoverBenchmarkPacks(join(process.cwd(), '..', '..', 'cases')).map(
+      (pack) => ({ id: pack.id, version: pack.version, description: pack.description })
+    );
+    return NextResponse.json({ packs });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load benchmark packs';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
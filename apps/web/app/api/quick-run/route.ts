@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { join } from 'node:path';
-import { runSuite } from '../../../../../packages/runner/dist/index.js';
+import { getBenchmarkPackConfig, runSuite } from '../../../../../packages/runner/dist/index.js';
 import { connectMcp } from '../../../../../packages/runner/dist/mcpClient.js';
 import { addRun } from '@/lib/store';
 
@@ -11,11 +11,11 @@ type QuickRunPayload = {
   submittedBy: string;
   config: {
     suiteName: string;
-    benchmarkPack: 'general';
+    benchmarkPack: string;
     serverName: string;
     modelName: string;
     dryRun: boolean;
-    deterministicWeight: number;
+    deterministicWeight?: number;
     mcpTransportConfig?:
       | { type: 'stdio'; command: string; args: string[] }
       | { type: 'sse' | 'streamable-http'; url: string };
@@ -39,7 +39,8 @@ function isQuickRunPayload(value: unknown): value is QuickRunPayload {
     payload.team.length > 0 &&
     typeof payload.submittedBy === 'string' &&
     payload.submittedBy.length > 0 &&
-    config.benchmarkPack === 'general' &&
+    typeof config.benchmarkPack === 'string' &&
+    config.benchmarkPack.length > 0 &&
     typeof config.suiteName === 'string' &&
     config.suiteName.length > 0 &&
     typeof config.serverName === 'string' &&
@@ -47,7 +48,7 @@ function isQuickRunPayload(value: unknown): value is QuickRunPayload {
     typeof config.modelName === 'string' &&
     config.modelName.length > 0 &&
     typeof config.dryRun === 'boolean' &&
-    typeof config.deterministicWeight === 'number'
+    (config.deterministicWeight === undefined || typeof config.deterministicWeight === 'number')
   );
 }
 
@@ -71,7 +72,8 @@ export async function POST(request: Request) {
       await probeSession.close();
     }
 
-    const casesPath = join(process.cwd(), '..', '..', 'cases', 'general');
+    const packsPath = join(process.cwd(), '..', '..', 'cases');
+    const casesPath = getBenchmarkPackConfig(payload.config.benchmarkPack, packsPath).defaultCasesPath;
 
     const report = await runSuite({
       suiteName: payload.config.suiteName,
@@ -79,6 +81,7 @@ export async function POST(request: Request) {
       serverName: payload.config.serverName,
       modelName: payload.config.modelName,
       casesPath,
+      packsPath,
       dryRun: payload.config.dryRun,
       deterministicWeight: payload.config.deterministicWeight,
       mcpTransportConfig: payload.config.mcpTransportConfig
@@ -1,13 +1,19 @@
 'use client';
 
 import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import { parseCapabilityMapText } from '@/lib/capabilityMap';
+import { describeCaseFilter, parseCaseFilterText } from '@/lib/caseFilter';
 import { addEndpoint, deleteEndpoint, listEndpoints } from '@/lib/endpointRepository';
 import { createRunRepository } from '@/lib/runRepository';
 import type {
+  BenchmarkPackInfo,
+  CapabilityMap,
+  CaseFilter,
   EvalJob,
   McpEndpoint,
   RegisteredWorker,
   StoredRun,
+  TraceEvent,
   WorkerInfo
 } from '@/lib/types';
 
@@ -73,6 +79,101 @@ function statusBadgeClass(status: EvalJob['status']): string {
   return 'badge-neutral';
 }
 
+function gateFailedCaseCount(run: StoredRun): number {
+  return run.report.cases.filter((item) => (item.gateFailures?.length ?? 0) > 0).length;
+}
+
+function timedOutCaseCount(run: StoredRun): number {
+  return run.report.cases.filter((item) => item.timedOut).length;
+}
+
+function describeInvalidCases(run: StoredRun): string {
+  return (run.report.invalidCases ?? [])
+    .flatMap((invalid) =>
+      invalid.issues.map((issue) => `${invalid.file}${issue.path ? ` (${issue.path})` : ''}: ${issue.message}`)
+    )
+    .join('\n');
+}
+
+function shortHash(hash: string | undefined): string {
+  return hash ? hash.slice(0, 12) : 'unknown';
+}
+
+// The newest run of each pack sets the reference case set; runs are sorted
+// newest first. Reports from before pack hashing count as a different set.
+function latestPackHashes(runs: StoredRun[]): Map<string, string | undefined> {
+  const latest = new Map<string, string | undefined>();
+  for (const run of runs) {
+    if (!latest.has(run.report.benchmarkPack)) {
+      latest.set(run.report.benchmarkPack, run.report.packHash);
+    }
+  }
+  return latest;
+}
+
+function formatJson(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// One timeline row per trace event: a short label, optional body text and badges.
+function describeTraceEvent(event: TraceEvent): {
+  label: string;
+  body?: string;
+  badges: Array<{ text: string; className: string }>;
+} {
+  switch (event.type) {
+    case 'session_connected':
+      return {
+        label: `Connected to ${event.serverName}`,
+        body: event.capabilityMap
+          ? Object.entries(event.capabilityMap)
+              .map(([tool, match]) => `${tool} → ${match.capability} (${match.confidence.toFixed(2)})`)
+              .join('\n') || 'no capabilities'
+          : event.capabilities.join(', ') || 'no capabilities',
+        badges: []
+      };
+    case 'turn_start':
+      return { label: `Turn ${event.turn}`, body: event.turn === 0 ? event.prompt : undefined, badges: [] };
+    case 'model_response':
+      return {
+        label: `Assistant (${event.finishReason})`,
+        body: event.content || undefined,
+        badges: event.finishReason === 'error' ? [{ text: 'error', className: 'badge-fail' }] : []
+      };
+    case 'tool_call':
+      return {
+        label: `Call ${event.toolName}`,
+        body: formatJson(event.parameters),
+        badges: (event.attempt ?? 1) > 1 ? [{ text: `attempt ${event.attempt}`, className: 'badge-neutral' }] : []
+      };
+    case 'tool_result':
+      return {
+        label: `${event.errorMessage ? 'Error from' : 'Result from'} ${event.toolName}`,
+        body: event.errorMessage ?? formatJson(event.result),
+        badges: [
+          ...(event.errorMessage ? [{ text: event.errorKind ?? 'error', className: 'badge-fail' }] : []),
+          ...(event.timedOut ? [{ text: 'timed out', className: 'badge-fail' }] : []),
+          ...(event.resultTruncated ? [{ text: 'truncated', className: 'badge-neutral' }] : [])
+        ]
+      };
+    case 'check_result':
+      return {
+        label: `Check ${event.checkId}`,
+        body: event.note,
+        badges: [
+          event.passed
+            ? { text: `passed +${event.score.toFixed(2)}`, className: 'badge-pass' }
+            : { text: 'failed', className: 'badge-fail' }
+        ]
+      };
+    case 'session_closed':
+      return {
+        label: `Session closed after ${event.totalTurns} turn(s)`,
+        badges: event.timedOut ? [{ text: 'case timed out', className: 'badge-fail' }] : []
+      };
+  }
+}
+
 function isWorkerOnline(lastSeenAt: string): boolean {
   return Date.now() - new Date(lastSeenAt).getTime() < 15_000;
 }
@@ -134,6 +235,7 @@ export default function HomePage() {
   const [endpointUrlOrCommand, setEndpointUrlOrCommand] = useState('');
   const [endpointAuthEnvVar, setEndpointAuthEnvVar] = useState('');
   const [endpointNotes, setEndpointNotes] = useState('');
+  const [endpointCapabilityMap, setEndpointCapabilityMap] = useState('');
   const [denseMode, setDenseMode] = useState(false);
   const [jobs, setJobs] = useState<EvalJob[]>([]);
   const [workers, setWorkers] = useState<WorkerInfo[]>([]);
@@ -150,6 +252,10 @@ export default function HomePage() {
   const [jobUrlOrCommand, setJobUrlOrCommand] = useState('');
   const [jobModelName, setJobModelName] = useState('claude-sonnet');
   const [jobSuiteName, setJobSuiteName] = useState('general');
+  const [jobBenchmarkPack, setJobBenchmarkPack] = useState('general');
+  const [benchmarkPacks, setBenchmarkPacks] = useState<BenchmarkPackInfo[]>([]);
+  const [jobIncludeCases, setJobIncludeCases] = useState('');
+  const [jobExcludeCases, setJobExcludeCases] = useState('');
   const [jobTeam, setJobTeam] = useState('default');
   const [jobSubmittedBy, setJobSubmittedBy] = useState('local-user');
   const [jobDryRun, setJobDryRun] = useState(true);
@@ -166,6 +272,8 @@ export default function HomePage() {
   const [showAdvancedJobOptions, setShowAdvancedJobOptions] = useState(false);
   const [showWorkerSetup, setShowWorkerSetup] = useState(false);
   const [showAdvancedControls, setShowAdvancedControls] = useState(false);
+  const [traceRunId, setTraceRunId] = useState<string | null>(null);
+  const [traceCaseId, setTraceCaseId] = useState('');
 
   const totals = useMemo(() => {
     const count = runs.length;
@@ -176,6 +284,18 @@ export default function HomePage() {
     return { count, avgScore };
   }, [runs]);
 
+  const latestHashByPack = useMemo(() => latestPackHashes(runs), [runs]);
+  const incomparableRunCount = useMemo(
+    () => runs.filter((run) => run.report.packHash !== latestHashByPack.get(run.report.benchmarkPack)).length,
+    [runs, latestHashByPack]
+  );
+
+  const traceRun = useMemo(() => runs.find((run) => run.id === traceRunId), [runs, traceRunId]);
+  const traceCase = useMemo(
+    () => traceRun?.report.cases.find((item) => item.id === traceCaseId) ?? traceRun?.report.cases[0],
+    [traceRun, traceCaseId]
+  );
+
   const onlineWorkerCount = useMemo(() => {
     return workers.filter((worker) => isWorkerOnline(worker.lastSeenAt)).length;
   }, [workers]);
@@ -204,6 +324,7 @@ export default function HomePage() {
   useEffect(() => {
     void refreshRuns();
     void refreshEndpoints();
+    void refreshBenchmarkPacks();
   }, []);
 
   useEffect(() => {
@@ -282,6 +403,19 @@ export default function HomePage() {
     setEndpoints(items);
   }
 
+  async function refreshBenchmarkPacks(): Promise<void> {
+    try {
+      const response = await fetch('/api/packs', { cache: 'no-store' });
+      if (!response.ok) {
+        return;
+      }
+      const payload = (await response.json()) as { packs: BenchmarkPackInfo[] };
+      setBenchmarkPacks(payload.packs);
+    } catch {
+      // keep the default pack when discovery is unavailable
+    }
+  }
+
   async function refreshJobs(): Promise<void> {
     try {
       const response = await fetch('/api/jobs', { cache: 'no-store' });
@@ -463,13 +597,15 @@ export default function HomePage() {
         transport: endpointTransport,
         urlOrCommand: endpointUrlOrCommand,
         authEnvVar: endpointAuthEnvVar,
-        notes: endpointNotes
+        notes: endpointNotes,
+        capabilityMap: endpointCapabilityMap.trim() ? parseCapabilityMapText(endpointCapabilityMap) : undefined
       });
       await refreshEndpoints();
       setEndpointName('');
       setEndpointUrlOrCommand('');
       setEndpointAuthEnvVar('');
       setEndpointNotes('');
+      setEndpointCapabilityMap('');
       setMessage('Server profile saved.');
     } catch (error) {
       setMessage((error as Error).message);
@@ -887,16 +1023,18 @@ export default function HomePage() {
     setMessage('');
 
     try {
+      const caseFilter = mode === 'quick' ? undefined : parseCaseFilterText(jobIncludeCases, jobExcludeCases);
       const payload: {
         team: string;
         submittedBy: string;
         config: {
           suiteName: string;
-          benchmarkPack: 'general';
+          benchmarkPack: string;
           serverName: string;
           modelName: string;
           dryRun: boolean;
-          deterministicWeight: number;
+          caseFilter?: CaseFilter;
+          capabilityMap?: CapabilityMap;
           mcpTransportConfig?:
             | { type: 'stdio'; command: string; args: string[] }
             | { type: 'sse' | 'streamable-http'; url: string };
@@ -906,11 +1044,12 @@ export default function HomePage() {
         submittedBy: mode === 'quick' ? 'web-quick-test' : jobSubmittedBy.trim() || 'local-user',
         config: {
           suiteName: mode === 'quick' ? 'general' : jobSuiteName.trim() || 'general',
-          benchmarkPack: 'general',
+          benchmarkPack: mode === 'quick' ? 'general' : jobBenchmarkPack,
           serverName,
           modelName: mode === 'quick' ? 'quick-mcp-check' : jobModelName.trim() || 'claude-sonnet',
           dryRun: jobDryRun,
-          deterministicWeight: 0.7
+          ...(caseFilter ? { caseFilter } : {}),
+          ...(selectedEndpoint?.capabilityMap ? { capabilityMap: selectedEndpoint.capabilityMap } : {})
         }
       };
 
@@ -1212,6 +1351,22 @@ export default function HomePage() {
               disabled={isBusy}
             />
           </div>
+          <div className="form-field full-width">
+            <label htmlFor="ep-capability-map">Capability map (optional, JSON or YAML)</label>
+            <textarea
+              id="ep-capability-map"
+              className="code"
+              rows={5}
+              placeholder={'tools:\n  arduino_build_sketch: compile\n  "board_*": device_io\nargumentHints:\n  upload: [serialPortPath]'}
+              value={endpointCapabilityMap}
+              onChange={(e) => setEndpointCapabilityMap(e.target.value)}
+              disabled={isBusy}
+            />
+            <p className="help-text">
+              Maps tool names or globs to capabilities when the automatic classifier gets them wrong.
+              Jobs queued against this server use it.
+            </p>
+          </div>
         </div>
 
         <button
@@ -1248,7 +1403,17 @@ export default function HomePage() {
                   </td>
                   <td className="code">{ep.urlOrCommand}</td>
                   <td className="code">{ep.authEnvVar ?? '—'}</td>
-                  <td>{ep.notes ?? '—'}</td>
+                  <td>
+                    {ep.notes ?? '—'}
+                    {ep.capabilityMap && (
+                      <>
+                        {' '}
+                        <span className="badge-neutral" title="Jobs use this server's capability map">
+                          {Object.keys(ep.capabilityMap.tools).length} mapped tool(s)
+                        </span>
+                      </>
+                    )}
+                  </td>
                   <td>
                     <button
                       type="button"
@@ -1646,7 +1811,19 @@ export default function HomePage() {
           <div className="form-row">
             <div className="form-field">
               <label htmlFor="job-pack">Benchmark pack</label>
-              <input id="job-pack" type="text" value="general" disabled />
+              <select
+                id="job-pack"
+                value={jobBenchmarkPack}
+                onChange={(e) => setJobBenchmarkPack(e.target.value)}
+                disabled={isBusy || isJobBusy}
+              >
+                {benchmarkPacks.length === 0 ? <option value="general">general</option> : null}
+                {benchmarkPacks.map((pack) => (
+                  <option key={pack.id} value={pack.id} title={pack.description}>
+                    {pack.id} (v{pack.version})
+                  </option>
+                ))}
+              </select>
             </div>
             <div className="form-field">
               <label htmlFor="job-suite">Suite name</label>
@@ -1660,6 +1837,32 @@ export default function HomePage() {
             </div>
           </div>
 
+          <div className="form-row">
+            <div className="form-field">
+              <label htmlFor="job-include-cases">Include cases</label>
+              <input
+                id="job-include-cases"
+                type="text"
+                placeholder="tags=api,retry; difficulties=easy; ids=10*"
+                value={jobIncludeCases}
+                onChange={(e) => setJobIncludeCases(e.target.value)}
+                disabled={isBusy || isJobBusy}
+              />
+            </div>
+            <div className="form-field">
+              <label htmlFor="job-exclude-cases">Exclude cases</label>
+              <input
+                id="job-exclude-cases"
+                type="text"
+                placeholder="categories=safety"
+                value={jobExcludeCases}
+                onChange={(e) => setJobExcludeCases(e.target.value)}
+                disabled={isBusy || isJobBusy}
+              />
+            </div>
+          </div>
+          <p className="help-text">Leave both empty to run every case in the pack.</p>
+
           <div className="form-row">
             <div className="form-field">
               <label htmlFor="job-model">Model label</label>
@@ -1818,6 +2021,13 @@ export default function HomePage() {
           </div>
         )}
 
+        {incomparableRunCount > 0 && (
+          <p className="section-desc">
+            <span className="badge-warn">not comparable</span> {incomparableRunCount} run(s) scored a different case
+            set than the latest run of their pack, so their scores cannot be compared with it.
+          </p>
+        )}
+
         <table>
           <thead>
             <tr>
@@ -1827,12 +2037,13 @@ export default function HomePage() {
               <th>Model</th>
               <th>Cases</th>
               <th>Score</th>
+              <th></th>
             </tr>
           </thead>
           <tbody>
             {runs.length === 0 ? (
               <tr>
-                <td colSpan={6} className="empty-cell">
+                <td colSpan={7} className="empty-cell">
                   No results yet — run the evaluator and import the report above.
                 </td>
               </tr>
@@ -1857,17 +2068,149 @@ export default function HomePage() {
                         </span>
                       </>
                     )}
+                    {gateFailedCaseCount(run) > 0 && (
+                      <>
+                        {' '}
+                        <span
+                          className="badge-fail"
+                          title="Cases that violated a required check, regardless of score"
+                        >
+                          {gateFailedCaseCount(run)} gated
+                        </span>
+                      </>
+                    )}
+                    {timedOutCaseCount(run) > 0 && (
+                      <>
+                        {' '}
+                        <span className="badge-fail" title="Cases that hit their wall-clock timeout">
+                          {timedOutCaseCount(run)} timed out
+                        </span>
+                      </>
+                    )}
+                    {(run.report.invalidCases?.length ?? 0) > 0 && (
+                      <>
+                        {' '}
+                        <span className="badge-fail" title={describeInvalidCases(run)}>
+                          {run.report.invalidCases?.length} invalid
+                        </span>
+                      </>
+                    )}
+                    {run.report.selection && run.report.selection.selected < run.report.selection.total && (
+                      <>
+                        {' '}
+                        <span className="badge-warn" title={describeCaseFilter(run.report.selection.filter)}>
+                          partial {run.report.selection.selected}/{run.report.selection.total}
+                        </span>
+                      </>
+                    )}
                   </td>
                   <td>
                     <span className={scoreClass(run.report.summary.score)}>
                       {run.report.summary.score.toFixed(3)}
                     </span>
+                    {run.report.summary.confidence && (run.report.summary.trials ?? 1) > 1 && (
+                      <>
+                        {' '}
+                        <span
+                          className="badge-neutral"
+                          title={`95% interval over ${run.report.summary.trials} trials per case`}
+                        >
+                          {run.report.summary.confidence.score.lower.toFixed(2)}–
+                          {run.report.summary.confidence.score.upper.toFixed(2)}
+                        </span>
+                      </>
+                    )}
+                    {run.report.packHash !== latestHashByPack.get(run.report.benchmarkPack) && (
+                      <>
+                        {' '}
+                        <span
+                          className="badge-warn"
+                          title={`Case set ${shortHash(run.report.packHash)} differs from ${shortHash(
+                            latestHashByPack.get(run.report.benchmarkPack)
+                          )} used by the latest ${run.report.benchmarkPack} run`}
+                        >
+                          not comparable
+                        </span>
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setTraceRunId(run.id === traceRunId ? null : run.id);
+                        setTraceCaseId('');
+                      }}
+                    >
+                      {run.id === traceRunId ? 'Hide trace' : 'View trace'}
+                    </button>
                   </td>
                 </tr>
               ))
             )}
           </tbody>
         </table>
+
+        {traceRun && traceCase ? (
+          <div className="trace-panel">
+            <h3>
+              Trace: {traceRun.report.server} · {traceRun.report.model}
+            </h3>
+            <div className="toolbar">
+              <select value={traceCase.id} onChange={(e) => setTraceCaseId(e.target.value)}>
+                {traceRun.report.cases.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.passed ? '✓' : '✗'} {item.id}
+                  </option>
+                ))}
+              </select>
+              <span className={traceCase.passed ? 'badge-pass' : 'badge-fail'}>
+                {traceCase.passed ? 'passed' : 'failed'}
+              </span>
+              {(traceCase.trials?.length ?? 0) > 1 &&
+                traceCase.trials?.map((trial) => (
+                  <span
+                    key={trial.trial}
+                    className={trial.passed ? 'badge-pass' : 'badge-fail'}
+                    title={`Deterministic ${trial.deterministicScore.toFixed(3)} · epistemic ${trial.epistemicScore.toFixed(3)}${
+                      trial.timedOut ? ' · timed out' : ''
+                    }`}
+                  >
+                    trial {trial.trial}
+                    {trial.trial === traceCase.representativeTrial ? ' (trace)' : ''}
+                  </span>
+                ))}
+              {traceCase.traceTruncated && (
+                <span className="badge-neutral" title="Events were dropped or tool results shortened on ingest">
+                  trace truncated
+                </span>
+              )}
+            </div>
+            {(traceCase.trace?.length ?? 0) === 0 ? (
+              <p className="empty-state">This case has no stored trace.</p>
+            ) : (
+              <ol className="trace-timeline">
+                {(traceCase.trace ?? []).map((event, index) => {
+                  const row = describeTraceEvent(event);
+                  return (
+                    <li key={index} className={`trace-event trace-${event.type}`}>
+                      <div className="trace-head">
+                        <strong>{row.label}</strong>
+                        {row.badges.map((badge) => (
+                          <span key={badge.text} className={badge.className}>
+                            {badge.text}
+                          </span>
+                        ))}
+                        <span className="trace-time">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                      </div>
+                      {row.body ? <pre className="trace-body code">{row.body}</pre> : null}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        ) : null}
       </div>
     </main>
   );
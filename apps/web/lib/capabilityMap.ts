@@ -0,0 +1,40 @@
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { CapabilityMap } from './types';
+
+// Mirrors capabilitySchema and capabilityMapSchema in packages/schemas.
+const capabilitySchema = z.enum([
+  'file_read',
+  'project_init',
+  'file_write',
+  'shell_exec',
+  'http_request',
+  'build',
+  'run',
+  'test',
+  'device_io',
+  'compile',
+  'upload',
+  'simulate',
+  'serial_read',
+  'serial_write',
+  'dependency_install'
+]);
+
+export const capabilityMapSchema = z.object({
+  tools: z.record(capabilitySchema).default({}),
+  argumentHints: z.record(capabilitySchema, z.array(z.string().min(1))).default({}),
+  aliases: z.record(capabilitySchema).default({})
+});
+
+// Accepts the same JSON or YAML documents as the CLI's --capability-map.
+export function parseCapabilityMapText(text: string): CapabilityMap {
+  const trimmed = text.trim();
+  const parsed: unknown = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+  const result = capabilityMapSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid capability map at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import type { CaseFilter, CaseSelector } from './types';
+
+// Mirrors caseSelectorSchema and caseFilterSchema in packages/schemas.
+const caseSelectorSchema = z.object({
+  tags: z.array(z.string().min(1)).min(1).optional(),
+  categories: z.array(z.enum(['deterministic', 'epistemic', 'safety'])).min(1).optional(),
+  difficulties: z.array(z.enum(['easy', 'medium', 'hard'])).min(1).optional(),
+  ids: z.array(z.string().min(1)).min(1).optional()
+});
+
+export const caseFilterSchema = z.object({
+  include: caseSelectorSchema.default({}),
+  exclude: caseSelectorSchema.default({})
+});
+
+const SELECTOR_FIELDS: Record<string, keyof CaseSelector> = {
+  tag: 'tags',
+  tags: 'tags',
+  category: 'categories',
+  categories: 'categories',
+  difficulty: 'difficulties',
+  difficulties: 'difficulties',
+  id: 'ids',
+  ids: 'ids'
+};
+
+// Reads `tags=api,retry; difficulty=easy; ids=10*` into selector fields.
+function parseSelectorText(text: string): Record<string, string[]> {
+  const selector: Record<string, string[]> = {};
+  for (const clause of text.split(';').map((item) => item.trim()).filter((item) => item.length > 0)) {
+    const separator = clause.indexOf('=');
+    const field = separator === -1 ? undefined : SELECTOR_FIELDS[clause.slice(0, separator).trim().toLowerCase()];
+    if (field === undefined) {
+      throw new Error(`Invalid case filter clause "${clause}": use tags=, categories=, difficulties= or ids=`);
+    }
+    selector[field] = clause
+      .slice(separator + 1)
+      .split(',')
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0);
+  }
+  return selector;
+}
+
+// Returns undefined when both texts are empty, so unfiltered jobs carry no filter.
+export function parseCaseFilterText(includeText: string, excludeText: string): CaseFilter | undefined {
+  if (!includeText.trim() && !excludeText.trim()) {
+    return undefined;
+  }
+  const result = caseFilterSchema.safeParse({
+    include: parseSelectorText(includeText),
+    exclude: parseSelectorText(excludeText)
+  });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid case filter at ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Short label such as `tags=api; !difficulty=hard` for run lists.
+export function describeCaseFilter(filter: CaseFilter): string {
+  const clauses = (prefix: string, selector: CaseSelector) =>
+    (Object.entries(selector) as Array<[string, string[] | undefined]>)
+      .filter((entry): entry is [string, string[]] => entry[1] !== undefined)
+      .map(([field, values]) => `${prefix}${field}=${values.join(',')}`);
+  return [...clauses('', filter.include), ...clauses('!', filter.exclude)].join('; ');
+}
@@ -1,4 +1,4 @@
-import type { McpEndpoint } from './types';
+import type { CapabilityMap, McpEndpoint } from './types';
 
 const STORAGE_KEY = 'mcp-eval-endpoints-v1';
 
@@ -42,6 +42,7 @@ export async function addEndpoint(input: {
   urlOrCommand: string;
   authEnvVar?: string;
   notes?: string;
+  capabilityMap?: CapabilityMap;
 }): Promise<McpEndpoint> {
   const endpoints = await listEndpoints();
 
@@ -52,6 +53,7 @@ export async function addEndpoint(input: {
     urlOrCommand: input.urlOrCommand.trim(),
     authEnvVar: input.authEnvVar?.trim() || undefined,
     notes: input.notes?.trim() || undefined,
+    capabilityMap: input.capabilityMap,
     createdAt: new Date().toISOString()
   };
 
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { capabilityMapSchema } from './capabilityMap';
+import { caseFilterSchema } from './caseFilter';
 import { runReportSchema } from './validation';
 
 const transportConfigSchema = z.discriminatedUnion('type', [
@@ -17,17 +19,66 @@ const transportConfigSchema = z.discriminatedUnion('type', [
   })
 ]);
 
+const modelProviderConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('scripted'),
+    fixturePath: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal('openai'),
+    baseUrl: z.string().url().optional(),
+    apiKeyEnv: z.string().min(1).optional()
+  }),
+  z.object({
+    type: z.literal('anthropic'),
+    baseUrl: z.string().url().optional(),
+    apiKeyEnv: z.string().min(1).optional()
+  })
+]);
+
+const judgeConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('heuristic') }),
+  z.object({
+    type: z.literal('model'),
+    modelName: z.string().min(1),
+    provider: modelProviderConfigSchema
+  })
+]);
+
 export const createJobSchema = z.object({
   team: z.string().min(1).default('default'),
   submittedBy: z.string().min(1).default('unknown'),
   config: z.object({
     suiteName: z.string().min(1).default('general'),
-    benchmarkPack: z.literal('general').default('general'),
+    benchmarkPack: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/).default('general'),
     serverName: z.string().min(1),
     modelName: z.string().min(1),
     casesPath: z.string().min(1).optional(),
+    caseFilter: caseFilterSchema.optional(),
     dryRun: z.boolean().default(false),
-    deterministicWeight: z.number().min(0).max(1).default(0.7),
+    deterministicWeight: z.number().min(0).max(1).optional(),
+    maxTurns: z.number().int().min(1).optional(),
+    trials: z.number().int().min(1).optional(),
+    concurrency: z.number().int().min(1).optional(),
+    timeouts: z
+      .object({
+        connectMs: z.number().int().min(1).optional(),
+        toolCallMs: z.number().int().min(1).optional(),
+        caseMs: z.number().int().min(1).optional()
+      })
+      .optional(),
+    retry: z
+      .object({
+        maxAttempts: z.number().int().min(1).optional(),
+        backoffMs: z.number().int().min(0).optional(),
+        backoffMultiplier: z.number().min(1).optional(),
+        retryOn: z.array(z.enum(['timeout', 'transport_error', 'tool_error'])).optional()
+      })
+      .optional(),
+    modelProvider: modelProviderConfigSchema.optional(),
+    judge: judgeConfigSchema.optional(),
+    keepWorkspaces: z.boolean().optional(),
+    capabilityMap: capabilityMapSchema.optional(),
     mcpTransportConfig: transportConfigSchema.optional()
   })
 });
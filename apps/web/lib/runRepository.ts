@@ -1,3 +1,4 @@
+import { limitReportTraces } from './traceLimits';
 import type { RunReport, StoredRun } from './types';
 import { runReportSchema } from './validation';
 
@@ -53,7 +54,7 @@ export class LocalStorageRunRepository implements RunRepository {
       team: input.team,
       submittedBy: input.submittedBy,
       createdAt: new Date().toISOString(),
-      report: input.report
+      report: limitReportTraces(input.report)
     };
 
     const next = sortRuns([item, ...runs]);
@@ -90,7 +91,7 @@ export class LocalStorageRunRepository implements RunRepository {
       }
 
       if (typeof record.runId === 'string') {
-        const report = runReportSchema.parse(record) as RunReport;
+        const report = limitReportTraces(runReportSchema.parse(record) as RunReport);
         const single: StoredRun = {
           id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
           team: 'imported',
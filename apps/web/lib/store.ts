@@ -1,5 +1,6 @@
 import { mkdir, readFile, writeFile } from 'node:fs/promises';
 import { dirname, join } from 'node:path';
+import { limitReportTraces } from './traceLimits';
 import type { StoredRun, RunReport } from './types';
 
 const dataPath = join(process.cwd(), 'data', 'runs.json');
@@ -27,7 +28,7 @@ export async function addRun(input: { team: string; submittedBy: string; report:
     team: input.team,
     submittedBy: input.submittedBy,
     createdAt: new Date().toISOString(),
-    report: input.report
+    report: limitReportTraces(input.report)
   };
 
   runs.push(item);
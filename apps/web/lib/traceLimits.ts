@@ -0,0 +1,77 @@
+import type { CaseResult, RunReport, TraceEvent, WorkspaceSnapshot } from './types';
+
+// Stored runs live in a JSON file and in browser localStorage, so traces are
+// bounded per tool result, per case and per report. Workspace file text counts
+// against the same per-report budget.
+export const MAX_TOOL_RESULT_CHARS = 2_000;
+export const MAX_TRACE_EVENTS_PER_CASE = 300;
+export const MAX_TRACE_CHARS_PER_REPORT = 1_000_000;
+
+function limitEvent(event: TraceEvent): { event: TraceEvent; truncated: boolean } {
+  if (event.type !== 'tool_result' || event.resultTruncated) {
+    return { event, truncated: false };
+  }
+  const serialized = JSON.stringify(event.result ?? null);
+  if (serialized.length <= MAX_TOOL_RESULT_CHARS) {
+    return { event, truncated: false };
+  }
+  return {
+    event: { ...event, result: `${serialized.slice(0, MAX_TOOL_RESULT_CHARS)}…`, resultTruncated: true },
+    truncated: true
+  };
+}
+
+// Keeps the end of the trace when events are dropped, since session_closed and
+// check outcomes are appended last.
+function limitCaseTrace(item: CaseResult): CaseResult {
+  const trace = item.trace ?? [];
+  const limited = trace.map(limitEvent);
+  const kept =
+    limited.length > MAX_TRACE_EVENTS_PER_CASE
+      ? [limited[0], ...limited.slice(limited.length - MAX_TRACE_EVENTS_PER_CASE + 1)]
+      : limited;
+  const truncated =
+    item.traceTruncated === true || kept.length < limited.length || limited.some((entry) => entry.truncated);
+  return { ...item, trace: kept.map((entry) => entry.event), traceTruncated: truncated };
+}
+
+// Keeps workspace files in order while they fit; the rest keep only their
+// path, listed under `omitted` like binary and oversized files.
+function limitWorkspace(workspace: WorkspaceSnapshot, budget: number): { workspace: WorkspaceSnapshot; size: number } {
+  const files: Record<string, string> = {};
+  const omitted = [...workspace.omitted];
+  let size = 0;
+  for (const [path, text] of Object.entries(workspace.files)) {
+    const fileSize = path.length + text.length;
+    if (size + fileSize > budget) {
+      omitted.push(path);
+      continue;
+    }
+    files[path] = text;
+    size += fileSize;
+  }
+  return { workspace: { ...workspace, files, omitted }, size };
+}
+
+// Applies the per-event and per-case limits, then drops the whole trace of any
+// case that no longer fits in the report's budget. Workspace files are
+// charged after the case's trace.
+export function limitReportTraces(report: RunReport): RunReport {
+  let budget = MAX_TRACE_CHARS_PER_REPORT;
+  const cases = report.cases.map((item) => {
+    let limited = limitCaseTrace(item);
+    const size = JSON.stringify(limited.trace).length;
+    if (size > budget) {
+      limited = { ...limited, trace: [], traceTruncated: (limited.trace?.length ?? 0) > 0 || limited.traceTruncated };
+    } else {
+      budget -= size;
+    }
+    if (limited.workspace === undefined) {
+      return limited;
+    }
+    const workspace = limitWorkspace(limited.workspace, budget);
+    budget -= workspace.size;
+    return { ...limited, workspace: workspace.workspace };
+  });
+  return { ...report, cases };
+}
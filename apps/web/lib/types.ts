@@ -4,22 +4,162 @@ export interface RunSummary {
   score: number;
   deterministicScore: number;
   epistemicScore: number;
+  trials?: number;
+  confidence?: {
+    passRate: Interval;
+    score: Interval;
+    deterministicScore: Interval;
+    epistemicScore: Interval;
+  };
+}
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface CaseTrialStats {
+  trials: number;
+  passCount: number;
+  deterministicScore: { mean: number; stddev: number };
+  epistemicScore: { mean: number; stddev: number };
+  passAtK: Record<string, number>;
+  passHatK: Record<string, number>;
+}
+
+/** Outcome of one trial of a case. */
+export interface TrialSummary {
+  trial: number;
+  passed: boolean;
+  deterministicScore: number;
+  epistemicScore: number;
+  gateFailures: string[];
+  timedOut: boolean;
+}
+
+export interface CheckResult {
+  checkId: string;
+  type: string;
+  passed: boolean;
+  score: number;
+  weight: number;
+  required: boolean;
+  note?: string;
+}
+
+export interface CriterionResult {
+  criterionId: string;
+  label: string;
+  weight: number;
+  score: number;
+  judgeScore?: number;
+  guardCap?: number;
+  weightedScore: number;
+  rationale: string;
+  judgeId: string;
+  guards: Array<{ guardId: string; triggered: boolean; cap: number; reason: string }>;
+}
+
+export type TraceEvent =
+  | {
+      type: 'session_connected';
+      timestamp: string;
+      serverName: string;
+      capabilities: string[];
+      capabilityMap?: Record<string, { capability: string; confidence: number; evidence: string[] }>;
+    }
+  | { type: 'turn_start'; timestamp: string; turn: number; prompt: string }
+  | {
+      type: 'tool_call';
+      timestamp: string;
+      turn: number;
+      toolName: string;
+      parameters: Record<string, unknown>;
+      attempt?: number;
+    }
+  | {
+      type: 'tool_result';
+      timestamp: string;
+      turn: number;
+      toolName: string;
+      result?: unknown;
+      /** Set when `result` was replaced by a truncated JSON preview on ingest. */
+      resultTruncated?: boolean;
+      errorMessage?: string;
+      timedOut?: boolean;
+      attempt?: number;
+      errorKind?: string;
+    }
+  | {
+      type: 'model_response';
+      timestamp: string;
+      turn: number;
+      content: string;
+      finishReason: 'stop' | 'tool_use' | 'max_turns' | 'error';
+    }
+  | { type: 'check_result'; timestamp: string; checkId: string; passed: boolean; score: number; note?: string }
+  | { type: 'session_closed'; timestamp: string; totalTurns: number; timedOut?: boolean };
+
+export interface WorkspaceSnapshot {
+  dir?: string;
+  files: Record<string, string>;
+  omitted: string[];
 }
 
 export interface CaseResult {
   id: string;
   title: string;
   category: 'deterministic' | 'epistemic' | 'safety';
+  /** SHA-256 of the case definition; missing on reports from before pack hashing. */
+  contentHash?: string;
   passed: boolean;
   deterministicScore: number;
   epistemicScore: number;
+  checkResults?: CheckResult[];
+  epistemicCriteria?: CriterionResult[];
+  gateFailures?: string[];
+  timedOut?: boolean;
+  stats?: CaseTrialStats;
+  /** Trial whose checks, notes and trace are shown; the first failing one, else the first. */
+  representativeTrial?: number;
+  trials?: TrialSummary[];
+  workspace?: WorkspaceSnapshot;
   notes: string[];
+  trace?: TraceEvent[];
+  /** True when events were dropped or tool results shortened to fit storage limits. */
+  traceTruncated?: boolean;
+}
+
+/** Each list that is set narrows the match; `ids` are globs. */
+export interface CaseSelector {
+  tags?: string[];
+  categories?: Array<'deterministic' | 'epistemic' | 'safety'>;
+  difficulties?: Array<'easy' | 'medium' | 'hard'>;
+  ids?: string[];
+}
+
+/** A case runs when it matches `include` and no field of `exclude`. */
+export interface CaseFilter {
+  include: CaseSelector;
+  exclude: CaseSelector;
+}
+
+/** A case file the runner could not load; `path` is empty for whole-file errors. */
+export interface InvalidCase {
+  file: string;
+  issues: Array<{ path: string; message: string }>;
 }
 
 export interface RunReport {
   runId: string;
   suiteName: string;
   benchmarkPack: string;
+  packVersion?: string;
+  /** Hash of the pack manifest and every loaded case; scores are only comparable between equal hashes. */
+  packHash?: string;
+  invalidCases?: InvalidCase[];
+  /** Set when the run used a case filter; the run is partial when `selected < total`. */
+  selection?: { filter: CaseFilter; selected: number; total: number };
   server: string;
   model: string;
   startedAt: string;
@@ -36,6 +176,15 @@ export interface StoredRun {
   report: RunReport;
 }
 
+export interface CapabilityMap {
+  /** Exact tool names or globs (`*`, `?`) → capability. */
+  tools: Record<string, string>;
+  /** Capability → input property names that mark a tool as providing it. */
+  argumentHints: Record<string, string[]>;
+  /** Overrides for the benchmark pack's capability aliases. */
+  aliases: Record<string, string>;
+}
+
 export interface McpEndpoint {
   id: string;
   name: string;
@@ -43,19 +192,53 @@ export interface McpEndpoint {
   urlOrCommand: string;
   authEnvVar?: string;
   notes?: string;
+  capabilityMap?: CapabilityMap;
   createdAt: string;
 }
 
+export type ModelProviderConfig =
+  | {
+      type: 'scripted';
+      fixturePath: string;
+    }
+  | {
+      type: 'openai' | 'anthropic';
+      baseUrl?: string;
+      apiKeyEnv?: string;
+    };
+
+/** A benchmark pack discovered from a `pack.json` manifest under `cases/`. */
+export interface BenchmarkPackInfo {
+  id: string;
+  version: string;
+  description: string;
+}
+
 export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 export interface JobConfig {
   suiteName: string;
-  benchmarkPack: 'general';
+  benchmarkPack: string;
   serverName: string;
   modelName: string;
   casesPath?: string;
+  caseFilter?: CaseFilter;
   dryRun: boolean;
-  deterministicWeight: number;
+  deterministicWeight?: number;
+  maxTurns?: number;
+  trials?: number;
+  concurrency?: number;
+  timeouts?: { connectMs?: number; toolCallMs?: number; caseMs?: number };
+  retry?: {
+    maxAttempts?: number;
+    backoffMs?: number;
+    backoffMultiplier?: number;
+    retryOn?: Array<'timeout' | 'transport_error' | 'tool_error'>;
+  };
+  modelProvider?: ModelProviderConfig;
+  judge?: { type: 'heuristic' } | { type: 'model'; modelName: string; provider: ModelProviderConfig };
+  keepWorkspaces?: boolean;
+  capabilityMap?: CapabilityMap;
   mcpTransportConfig?:
     | {
         type: 'stdio';
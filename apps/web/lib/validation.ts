@@ -1,9 +1,135 @@
 import { z } from 'zod';
+import { caseFilterSchema } from './caseFilter';
+
+const intervalSchema = z.object({
+  lower: z.number(),
+  upper: z.number()
+});
+
+const scoreStatsSchema = z.object({
+  mean: z.number(),
+  stddev: z.number()
+});
+
+const checkResultSchema = z.object({
+  checkId: z.string(),
+  type: z.string(),
+  passed: z.boolean(),
+  score: z.number(),
+  weight: z.number(),
+  required: z.boolean().default(false),
+  note: z.string().optional()
+});
+
+const criterionResultSchema = z.object({
+  criterionId: z.string(),
+  label: z.string(),
+  weight: z.number(),
+  score: z.number().min(0).max(4),
+  judgeScore: z.number().min(0).max(4).optional(),
+  guardCap: z.number().min(0).max(4).optional(),
+  weightedScore: z.number(),
+  rationale: z.string(),
+  judgeId: z.string(),
+  guards: z
+    .array(
+      z.object({
+        guardId: z.string(),
+        triggered: z.boolean(),
+        cap: z.number(),
+        reason: z.string()
+      })
+    )
+    .default([])
+});
+
+// Mirrors runTraceEventSchema in packages/schemas, with looser timestamps.
+const traceEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('session_connected'),
+    timestamp: z.string(),
+    serverName: z.string(),
+    capabilities: z.array(z.string()),
+    capabilityMap: z
+      .record(
+        z.object({
+          capability: z.string(),
+          confidence: z.number().min(0).max(1),
+          evidence: z.array(z.string())
+        })
+      )
+      .optional()
+  }),
+  z.object({
+    type: z.literal('turn_start'),
+    timestamp: z.string(),
+    turn: z.number().int().min(0),
+    prompt: z.string()
+  }),
+  z.object({
+    type: z.literal('tool_call'),
+    timestamp: z.string(),
+    turn: z.number().int().min(0),
+    toolName: z.string(),
+    parameters: z.record(z.unknown()),
+    attempt: z.number().int().min(1).optional()
+  }),
+  z.object({
+    type: z.literal('tool_result'),
+    timestamp: z.string(),
+    turn: z.number().int().min(0),
+    toolName: z.string(),
+    result: z.unknown(),
+    resultTruncated: z.boolean().optional(),
+    errorMessage: z.string().optional(),
+    timedOut: z.boolean().optional(),
+    attempt: z.number().int().min(1).optional(),
+    errorKind: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('model_response'),
+    timestamp: z.string(),
+    turn: z.number().int().min(0),
+    content: z.string(),
+    finishReason: z.enum(['stop', 'tool_use', 'max_turns', 'error'])
+  }),
+  z.object({
+    type: z.literal('check_result'),
+    timestamp: z.string(),
+    checkId: z.string(),
+    passed: z.boolean(),
+    score: z.number(),
+    note: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('session_closed'),
+    timestamp: z.string(),
+    totalTurns: z.number().int().min(0),
+    timedOut: z.boolean().optional()
+  })
+]);
 
 export const runReportSchema = z.object({
   runId: z.string().min(1),
   suiteName: z.string().min(1),
   benchmarkPack: z.string().min(1).default('general'),
+  packVersion: z.string().min(1).optional(),
+  packHash: z.string().min(1).optional(),
+  invalidCases: z
+    .array(
+      z.object({
+        file: z.string().min(1),
+        issues: z.array(z.object({ path: z.string(), message: z.string() }))
+      })
+    )
+    .default([]),
+  selection: z
+    .object({
+      filter: caseFilterSchema,
+      selected: z.number().int().min(0),
+      total: z.number().int().min(0)
+    })
+    .optional(),
   server: z.string().min(1),
   model: z.string().min(1),
   startedAt: z.string().min(1),
@@ -13,16 +139,62 @@ export const runReportSchema = z.object({
     failed: z.number(),
     score: z.number(),
     deterministicScore: z.number(),
-    epistemicScore: z.number()
+    epistemicScore: z.number(),
+    trials: z.number().int().min(1).default(1),
+    confidence: z
+      .object({
+        passRate: intervalSchema,
+        score: intervalSchema,
+        deterministicScore: intervalSchema,
+        epistemicScore: intervalSchema
+      })
+      .optional()
   }),
   cases: z.array(z.object({
     id: z.string(),
     title: z.string(),
     category: z.enum(['deterministic', 'epistemic', 'safety']),
+    contentHash: z.string().min(1).optional(),
     passed: z.boolean(),
     deterministicScore: z.number(),
     epistemicScore: z.number(),
-    notes: z.array(z.string())
+    checkResults: z.array(checkResultSchema).default([]),
+    epistemicCriteria: z.array(criterionResultSchema).default([]),
+    gateFailures: z.array(z.string()).default([]),
+    timedOut: z.boolean().default(false),
+    stats: z
+      .object({
+        trials: z.number().int().min(1),
+        passCount: z.number().int().min(0),
+        deterministicScore: scoreStatsSchema,
+        epistemicScore: scoreStatsSchema,
+        passAtK: z.record(z.number()),
+        passHatK: z.record(z.number())
+      })
+      .optional(),
+    representativeTrial: z.number().int().min(1).optional(),
+    trials: z
+      .array(
+        z.object({
+          trial: z.number().int().min(1),
+          passed: z.boolean(),
+          deterministicScore: z.number(),
+          epistemicScore: z.number(),
+          gateFailures: z.array(z.string()).default([]),
+          timedOut: z.boolean().default(false)
+        })
+      )
+      .default([]),
+    workspace: z
+      .object({
+        dir: z.string().optional(),
+        files: z.record(z.string()),
+        omitted: z.array(z.string()).default([])
+      })
+      .optional(),
+    notes: z.array(z.string()),
+    trace: z.array(traceEventSchema).default([]),
+    traceTruncated: z.boolean().default(false)
   }))
 });
 
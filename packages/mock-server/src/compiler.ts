@@ -0,0 +1,157 @@
+import { normalisePath, type MockState } from './state.js';
+
+export interface CompileResult {
+  sketch: string;
+  ok: boolean;
+  errors: string[];
+  /** `Serial.print`/`println` string literals, replayed on the serial port after upload. */
+  serialLines: string[];
+}
+
+// Headers that ship with the Arduino AVR core.
+const CORE_HEADERS = new Set([
+  'Arduino.h',
+  'Wire.h',
+  'SPI.h',
+  'EEPROM.h',
+  'SoftwareSerial.h',
+  'Servo.h',
+  'avr/io.h',
+  'avr/interrupt.h',
+  'avr/sleep.h'
+]);
+
+// Installable libraries and the header each one provides.
+export const LIBRARY_HEADERS: Record<string, string> = {
+  OneWire: 'OneWire.h',
+  DallasTemperature: 'DallasTemperature.h',
+  'DHT sensor library': 'DHT.h',
+  'Adafruit NeoPixel': 'Adafruit_NeoPixel.h',
+  LiquidCrystal: 'LiquidCrystal.h',
+  ArduinoJson: 'ArduinoJson.h'
+};
+
+const CONTROL_HEAD = /^(if|else|for|while|switch|do)\b/;
+
+// Blanks comments and the contents of string/char literals (keeping newlines)
+// so punctuation inside them is ignored by the checks below.
+function stripNoise(source: string): string {
+  let out = '';
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const pair = source.slice(index, index + 2);
+    if (pair === '//') {
+      while (index < source.length && source[index] !== '\n') index += 1;
+    } else if (pair === '/*') {
+      const end = source.indexOf('*/', index + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      out += source.slice(index, stop).replace(/[^\n]/g, ' ');
+      index = stop;
+    } else if (char === '"' || char === "'") {
+      out += char;
+      index += 1;
+      while (index < source.length && source[index] !== char && source[index] !== '\n') {
+        index += source[index] === '\\' ? 2 : 1;
+      }
+      if (source[index] === char) {
+        out += char;
+        index += 1;
+      }
+    } else {
+      out += char;
+      index += 1;
+    }
+  }
+  return out;
+}
+
+function checkSemicolons(file: string, lines: string[]): string[] {
+  const errors: string[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (line === '' || line.startsWith('#') || /[;{},:\\]$/.test(line)) continue;
+
+    let next = index + 1;
+    while (next < lines.length && lines[next].trim() === '') next += 1;
+    const following = next < lines.length ? lines[next].trim() : '';
+
+    // Function definitions and control statements continue with a block.
+    if (line.endsWith(')') && (CONTROL_HEAD.test(line) || following.startsWith('{'))) continue;
+    if (CONTROL_HEAD.test(line) && !line.endsWith(')')) continue;
+    // Multi-line expressions keep going on the next line.
+    if (/^[.+\-*/%&|?:)]/.test(following) || /[=+\-*/%&|?(<>!]$/.test(line)) continue;
+
+    const token = following === '' ? 'end of input' : `'${following[0]}' token`;
+    const lineNumber = following === '' ? index + 1 : next + 1;
+    const column = following === '' ? lines[index].length + 1 : lines[next].indexOf(following[0]) + 1;
+    errors.push(`${file}:${lineNumber}:${column}: error: expected ';' before ${token}`);
+  }
+  return errors;
+}
+
+function checkBraces(file: string, lines: string[]): string[] {
+  let depth = 0;
+  for (let index = 0; index < lines.length; index += 1) {
+    for (const char of lines[index]) {
+      if (char === '{') depth += 1;
+      if (char === '}') depth -= 1;
+      if (depth < 0) {
+        return [`${file}:${index + 1}:1: error: expected declaration before '}' token`];
+      }
+    }
+  }
+  return depth > 0 ? [`${file}:${lines.length}:1: error: expected '}' at end of input`] : [];
+}
+
+function checkIncludes(file: string, source: string, state: MockState): string[] {
+  const installed = new Set(state.installedLibraries.map((name) => LIBRARY_HEADERS[name]).filter(Boolean));
+  const errors: string[] = [];
+  source.split('\n').forEach((line, index) => {
+    const match = /^\s*#include\s*[<"]([^>"]+)[>"]/.exec(line);
+    if (match && !CORE_HEADERS.has(match[1]) && !installed.has(match[1])) {
+      errors.push(`${file}:${index + 1}:10: fatal error: ${match[1]}: No such file or directory`);
+    }
+  });
+  return errors;
+}
+
+function checkEntryPoints(file: string, stripped: string): string[] {
+  const errors: string[] = [];
+  for (const name of ['setup', 'loop']) {
+    if (!new RegExp(`\\bvoid\\s+${name}\\s*\\(\\s*(void)?\\s*\\)\\s*\\{`).test(stripped)) {
+      errors.push(`${file}: undefined reference to \`${name}'`);
+    }
+  }
+  return errors;
+}
+
+// Resolves a sketch path or sketch directory to the `.ino` file to compile.
+export function resolveSketch(state: MockState, path: string): string | undefined {
+  const normalised = normalisePath(path);
+  if (normalised in state.files) return normalised;
+  const name = normalised.split('/').pop() ?? normalised;
+  const conventional = `${normalised}/${name}.ino`;
+  if (conventional in state.files) return conventional;
+  return Object.keys(state.files).find((file) => file.startsWith(`${normalised}/`) && file.endsWith('.ino'));
+}
+
+// Approximates avr-gcc diagnostics for the mistakes agents actually make:
+// missing semicolons, unbalanced braces, missing libraries and entry points.
+export function compileSketch(state: MockState, sketch: string): CompileResult {
+  const source = state.files[sketch];
+  const file = sketch.split('/').pop() ?? sketch;
+  const stripped = stripNoise(source);
+  const lines = stripped.split('\n');
+
+  // A missing header is fatal in avr-gcc, so nothing else is reported.
+  const includeErrors = checkIncludes(file, source, state);
+  const errors =
+    includeErrors.length > 0 ? includeErrors : [...checkBraces(file, lines), ...checkSemicolons(file, lines)];
+  if (errors.length === 0) {
+    errors.push(...checkEntryPoints(file, stripped));
+  }
+
+  const serialLines = [...source.matchAll(/Serial\.print(?:ln)?\(\s*"((?:\\.|[^"\\])*)"/g)].map((match) => match[1]);
+  return { sketch, ok: errors.length === 0, errors, serialLines };
+}
@@ -0,0 +1,136 @@
+import type { MockState } from './state.js';
+
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface HttpResponse {
+  status: number;
+  body: unknown;
+}
+
+function header(request: HttpRequest, name: string): string | undefined {
+  const entry = Object.entries(request.headers ?? {}).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1];
+}
+
+function bodyObject(request: HttpRequest): Record<string, unknown> {
+  if (typeof request.body === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(request.body);
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return {};
+    }
+  }
+  return request.body && typeof request.body === 'object' ? (request.body as Record<string, unknown>) : {};
+}
+
+function nextId(prefix: string, existing: Record<string, unknown>): string {
+  return `${prefix}-${Object.keys(existing).length + 1}`;
+}
+
+// ─── Letter API ──────────────────────────────────────────────────────────────
+
+function handleLetters(state: MockState, request: HttpRequest, path: string): HttpResponse {
+  if (!/^Bearer\s+\S+/.test(header(request, 'authorization') ?? '')) {
+    return { status: 401, body: { error: 'Missing or invalid Bearer token' } };
+  }
+
+  const letters = state.http.letters;
+  const body = bodyObject(request);
+
+  if (request.method === 'POST' && path === '/letters/draft') {
+    const missing = ['to', 'subject', 'body'].filter((field) => typeof body[field] !== 'string' || body[field] === '');
+    if (missing.length > 0) {
+      return { status: 422, body: { valid: false, issues: missing.map((field) => `${field} is required`) } };
+    }
+    const id = nextId('draft', letters);
+    letters[id] = {
+      id,
+      to: String(body.to),
+      subject: String(body.subject),
+      body: String(body.body),
+      status: 'draft'
+    };
+    return { status: 201, body: { draftId: id, status: 'draft', valid: true, issues: [] } };
+  }
+
+  if (request.method === 'POST' && path === '/letters/send') {
+    const letter = letters[String(body.draftId)];
+    if (!letter) return { status: 404, body: { error: `Unknown draft ${String(body.draftId)}` } };
+    if (letter.status === 'sent') return { status: 409, body: { error: `Draft ${letter.id} was already sent` } };
+    letter.status = 'sent';
+    return { status: 200, body: { draftId: letter.id, status: 'sent' } };
+  }
+
+  const match = /^\/letters\/([^/]+)$/.exec(path);
+  if (request.method === 'GET' && match) {
+    const letter = letters[match[1]];
+    return letter ? { status: 200, body: letter } : { status: 404, body: { error: `Unknown draft ${match[1]}` } };
+  }
+
+  return { status: 404, body: { error: `No route for ${request.method} ${path}` } };
+}
+
+// ─── Calendar API ────────────────────────────────────────────────────────────
+
+function handleCalendar(state: MockState, request: HttpRequest, path: string): HttpResponse {
+  const events = state.http.events;
+  const body = bodyObject(request);
+
+  if (request.method === 'POST' && path === '/calendar/events') {
+    const key = header(request, 'idempotency-key');
+    if (!key) return { status: 400, body: { error: 'Idempotency-Key header is required' } };
+
+    // Replaying a key returns the original event instead of creating a duplicate.
+    const existing = Object.values(events).find((event) => event.idempotencyKey === key);
+    if (existing) return { status: 200, body: existing };
+
+    if (typeof body.title !== 'string' || typeof body.start !== 'string') {
+      return { status: 422, body: { error: 'title and start are required' } };
+    }
+    const id = nextId('evt', events);
+    events[id] = { id, title: body.title, start: body.start, idempotencyKey: key, syncStatus: 'pending' };
+    return { status: 201, body: events[id] };
+  }
+
+  if (request.method === 'POST' && path === '/calendar/sync') {
+    const event = events[String(body.eventId)];
+    if (!event) return { status: 404, body: { error: `Unknown event ${String(body.eventId)}` } };
+    event.syncStatus = 'synced';
+    return { status: 200, body: { eventId: event.id, status: 'synced' } };
+  }
+
+  const match = /^\/calendar\/events\/([^/]+)$/.exec(path);
+  if (request.method === 'GET' && match) {
+    const event = events[match[1]];
+    return event ? { status: 200, body: event } : { status: 404, body: { error: `Unknown event ${match[1]}` } };
+  }
+
+  return { status: 404, body: { error: `No route for ${request.method} ${path}` } };
+}
+
+// Routes a request to the stub Letter or Calendar API and records it in state.
+export function handleHttpRequest(state: MockState, request: HttpRequest): HttpResponse {
+  const method = request.method.toUpperCase();
+  const path = new URL(request.url, 'http://mock.local').pathname.replace(/\/+$/, '') || '/';
+  const normalised = { ...request, method };
+
+  const response = path.startsWith('/letters')
+    ? handleLetters(state, normalised, path)
+    : path.startsWith('/calendar')
+      ? handleCalendar(state, normalised, path)
+      : { status: 404, body: { error: `No route for ${method} ${path}` } };
+
+  state.http.requests.push({
+    method,
+    path,
+    status: response.status,
+    ...(request.body !== undefined ? { body: request.body } : {})
+  });
+  return response;
+}
@@ -0,0 +1,13 @@
+export { RESET_TOOL, STATE_RESOURCE_URI, createMockServer, type MockServer, type MockServerOptions } from './server.js';
+export { LIBRARY_HEADERS, compileSketch, resolveSketch, type CompileResult } from './compiler.js';
+export { handleHttpRequest, type HttpRequest, type HttpResponse } from './httpApi.js';
+export {
+  createMockState,
+  normalisePath,
+  resetMockState,
+  type CalendarEvent,
+  type CompileRecord,
+  type HttpRecord,
+  type Letter,
+  type MockState
+} from './state.js';
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMockServer } from './server.js';
+
+const { server } = createMockServer();
+await server.connect(new StdioServerTransport());
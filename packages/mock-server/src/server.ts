@@ -0,0 +1,338 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { LIBRARY_HEADERS, compileSketch, resolveSketch, type CompileResult } from './compiler.js';
+import { handleHttpRequest } from './httpApi.js';
+import { createMockState, normalisePath, resetMockState, type MockState } from './state.js';
+
+export const STATE_RESOURCE_URI = 'mock://state';
+
+// Control tool the eval runner calls before each trial; it hides it from the agent.
+export const RESET_TOOL = '__mock_reset';
+
+export interface MockServerOptions {
+  name?: string;
+  state?: MockState;
+}
+
+export interface MockServer {
+  server: McpServer;
+  state: MockState;
+}
+
+type ToolReply = { content: Array<{ type: 'text'; text: string }>; isError?: boolean };
+
+function ok(value: unknown): ToolReply {
+  return { content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value) }] };
+}
+
+function fail(message: string): ToolReply {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+const SKETCH_TEMPLATE = 'void setup() {\n}\n\nvoid loop() {\n}\n';
+
+function filesUnder(state: MockState, dir: string | undefined): string[] {
+  const prefix = dir ? `${normalisePath(dir)}/` : '';
+  return Object.keys(state.files).filter((file) => file.startsWith(prefix) || normalisePath(dir ?? '') === file);
+}
+
+function recordCompile(state: MockState, result: CompileResult, board: string): void {
+  state.compiles.push({ sketch: result.sketch, board, ok: result.ok, errors: result.errors });
+}
+
+// Registers one tool per capability in `capabilitySchema`, named after the
+// capability so the runner maps them without aliases.
+function registerTools(server: McpServer, state: MockState): void {
+  server.registerTool(
+    'project_init',
+    {
+      description: 'Create a new sketch project directory with an empty setup()/loop() sketch.',
+      inputSchema: { name: z.string().min(1), board: z.string().optional() }
+    },
+    async ({ name, board }) => {
+      const dir = normalisePath(name);
+      const sketch = `${dir}/${dir.split('/').pop()}.ino`;
+      if (state.projects.some((project) => project.name === dir)) {
+        return fail(`Project ${dir} already exists`);
+      }
+      state.projects.push({ name: dir, ...(board ? { board } : {}) });
+      state.files[sketch] = SKETCH_TEMPLATE;
+      return ok({ project: dir, sketch });
+    }
+  );
+
+  server.registerTool(
+    'file_read',
+    { description: 'Read a file from the workspace.', inputSchema: { path: z.string().min(1) } },
+    async ({ path }) => {
+      const content = state.files[normalisePath(path)];
+      return content === undefined ? fail(`No such file: ${path}`) : ok(content);
+    }
+  );
+
+  server.registerTool(
+    'file_write',
+    {
+      description: 'Write (or append to) a file in the workspace.',
+      inputSchema: { path: z.string().min(1), content: z.string(), append: z.boolean().optional() }
+    },
+    async ({ path, content, append }) => {
+      const key = normalisePath(path);
+      state.files[key] = append ? (state.files[key] ?? '') + content : content;
+      return ok({ path: key, bytes: state.files[key].length });
+    }
+  );
+
+  server.registerTool(
+    'shell_exec',
+    {
+      description: 'Run a shell command. The mock shell supports ls, cat, echo and pwd.',
+      inputSchema: { command: z.string().min(1) }
+    },
+    async ({ command }) => {
+      const [program, ...args] = command.trim().split(/\s+/);
+      let result: { exitCode: number; stdout: string; stderr: string };
+      if (program === 'ls') {
+        result = { exitCode: 0, stdout: filesUnder(state, args[0]).join('\n'), stderr: '' };
+      } else if (program === 'cat') {
+        const content = state.files[normalisePath(args[0] ?? '')];
+        result =
+          content === undefined
+            ? { exitCode: 1, stdout: '', stderr: `cat: ${args[0] ?? ''}: No such file or directory` }
+            : { exitCode: 0, stdout: content, stderr: '' };
+      } else if (program === 'echo') {
+        result = { exitCode: 0, stdout: args.join(' '), stderr: '' };
+      } else if (program === 'pwd') {
+        result = { exitCode: 0, stdout: '/workspace', stderr: '' };
+      } else {
+        result = { exitCode: 127, stdout: '', stderr: `${program}: command not available in the mock shell` };
+      }
+      state.shell.push({ command, exitCode: result.exitCode });
+      return result.exitCode === 0 ? ok(result) : { ...ok(result), isError: true };
+    }
+  );
+
+  server.registerTool(
+    'http_request',
+    {
+      description: 'Send an HTTP request to the stub Letter (/letters/*) or Calendar (/calendar/*) API.',
+      inputSchema: {
+        method: z.string().min(1),
+        url: z.string().min(1),
+        headers: z.record(z.string()).optional(),
+        body: z.unknown().optional()
+      }
+    },
+    async (request) => {
+      const response = handleHttpRequest(state, request);
+      return response.status >= 400 ? { ...ok(response), isError: true } : ok(response);
+    }
+  );
+
+  server.registerTool(
+    'compile',
+    {
+      description: 'Compile a sketch (file or sketch directory) for a board FQBN.',
+      inputSchema: { path: z.string().min(1), board: z.string().default('arduino:avr:uno') }
+    },
+    async ({ path, board }) => {
+      const sketch = resolveSketch(state, path);
+      if (!sketch) return fail(`No sketch found at ${path}`);
+      const result = compileSketch(state, sketch);
+      recordCompile(state, result, board);
+      return result.ok
+        ? ok({ sketch, board, ok: true })
+        : fail([...result.errors, 'Compilation failed.'].join('\n'));
+    }
+  );
+
+  server.registerTool(
+    'build',
+    {
+      description: 'Compile every sketch under a directory (the whole workspace by default).',
+      inputSchema: { path: z.string().optional(), board: z.string().default('arduino:avr:uno') }
+    },
+    async ({ path, board }) => {
+      const sketches = filesUnder(state, path).filter((file) => file.endsWith('.ino'));
+      const results = sketches.map((sketch) => compileSketch(state, sketch));
+      results.forEach((result) => recordCompile(state, result, board));
+      const failed = results.filter((result) => !result.ok);
+      const summary = { built: sketches, failed: failed.map((result) => ({ sketch: result.sketch, errors: result.errors })) };
+      return failed.length > 0 ? { ...ok(summary), isError: true } : ok(summary);
+    }
+  );
+
+  server.registerTool(
+    'upload',
+    {
+      description: 'Upload a compiled sketch to the connected board; its serial output becomes readable.',
+      inputSchema: {
+        path: z.string().min(1),
+        board: z.string().default('arduino:avr:uno'),
+        port: z.string().optional()
+      }
+    },
+    async ({ path, board, port }) => {
+      const sketch = resolveSketch(state, path);
+      if (!sketch) return fail(`No sketch found at ${path}`);
+      const last = [...state.compiles].reverse().find((record) => record.sketch === sketch);
+      if (!last?.ok) return fail(`${sketch} has no successful compile; compile it before uploading`);
+      if (last.board !== board) return fail(`${sketch} was compiled for ${last.board}, not ${board}`);
+
+      const { serialLines } = compileSketch(state, sketch);
+      state.uploads.push({ sketch, board, ...(port ? { port } : {}) });
+      state.serial.pending = [...serialLines];
+      state.serial.output.push(...serialLines);
+      return ok({ sketch, board, port: port ?? '/dev/ttyACM0', uploaded: true });
+    }
+  );
+
+  server.registerTool(
+    'simulate',
+    {
+      description: 'Compile a sketch and return the serial output it would print, without a board.',
+      inputSchema: { path: z.string().min(1) }
+    },
+    async ({ path }) => {
+      const sketch = resolveSketch(state, path);
+      if (!sketch) return fail(`No sketch found at ${path}`);
+      const result = compileSketch(state, sketch);
+      return result.ok ? ok({ sketch, serial: result.serialLines }) : fail(result.errors.join('\n'));
+    }
+  );
+
+  server.registerTool(
+    'run',
+    {
+      description: 'Run a workspace file: sketches run in the simulator, other files must exist.',
+      inputSchema: { path: z.string().min(1) }
+    },
+    async ({ path }) => {
+      const sketch = resolveSketch(state, path);
+      if (sketch?.endsWith('.ino')) {
+        const result = compileSketch(state, sketch);
+        return result.ok ? ok({ exitCode: 0, stdout: result.serialLines.join('\n') }) : fail(result.errors.join('\n'));
+      }
+      const key = normalisePath(path);
+      return key in state.files ? ok({ exitCode: 0, stdout: '' }) : fail(`No such file: ${path}`);
+    }
+  );
+
+  server.registerTool(
+    'test',
+    {
+      description: 'Check that every JSON file parses and every sketch compiles under a directory.',
+      inputSchema: { path: z.string().optional() }
+    },
+    async ({ path }) => {
+      const failures: string[] = [];
+      const files = filesUnder(state, path);
+      for (const file of files) {
+        if (file.endsWith('.json')) {
+          try {
+            JSON.parse(state.files[file]);
+          } catch (error) {
+            failures.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        } else if (file.endsWith('.ino')) {
+          failures.push(...compileSketch(state, file).errors);
+        }
+      }
+      const summary = { files: files.length, passed: failures.length === 0, failures };
+      return failures.length > 0 ? { ...ok(summary), isError: true } : ok(summary);
+    }
+  );
+
+  server.registerTool(
+    'dependency_install',
+    {
+      description: `Install a library. Available: ${Object.keys(LIBRARY_HEADERS).join(', ')}.`,
+      inputSchema: { name: z.string().min(1) }
+    },
+    async ({ name }) => {
+      const library = Object.keys(LIBRARY_HEADERS).find((item) => item.toLowerCase() === name.trim().toLowerCase());
+      if (!library) return fail(`Library not found: ${name}`);
+      if (!state.installedLibraries.includes(library)) state.installedLibraries.push(library);
+      return ok({ installed: library, header: LIBRARY_HEADERS[library] });
+    }
+  );
+
+  server.registerTool(
+    'serial_read',
+    {
+      description: 'Read lines printed on the serial port since the last read.',
+      inputSchema: { maxLines: z.number().int().min(1).optional() }
+    },
+    async ({ maxLines }) => {
+      const lines = state.serial.pending.splice(0, maxLines ?? state.serial.pending.length);
+      return ok({ baudRate: state.serial.baudRate, lines });
+    }
+  );
+
+  server.registerTool(
+    'serial_write',
+    {
+      description: 'Write data to the serial port.',
+      inputSchema: { data: z.string(), baudRate: z.number().int().min(1).optional() }
+    },
+    async ({ data, baudRate }) => {
+      if (baudRate !== undefined) state.serial.baudRate = baudRate;
+      state.serial.written.push(data);
+      return ok({ written: data.length, baudRate: state.serial.baudRate });
+    }
+  );
+
+  server.registerTool(
+    'device_io',
+    {
+      description: 'Read or write a digital/analog pin on the connected board.',
+      inputSchema: {
+        pin: z.union([z.string(), z.number()]),
+        mode: z.enum(['read', 'write']),
+        value: z.number().optional()
+      }
+    },
+    async ({ pin, mode, value }) => {
+      const key = String(pin).toUpperCase();
+      if (mode === 'write') {
+        if (value === undefined) return fail('device_io write requires a value');
+        state.pins[key] = value;
+      }
+      return ok({ pin: key, value: state.pins[key] ?? 0 });
+    }
+  );
+}
+
+// Builds the mock server without connecting a transport, so it can be served
+// over stdio by `main.ts` or connected in-process.
+export function createMockServer(options: MockServerOptions = {}): MockServer {
+  const state = options.state ?? createMockState();
+  const server = new McpServer({ name: options.name ?? 'mcp-agent-eval-mock', version: '0.1.0' });
+
+  registerTools(server, state);
+  server.registerTool(
+    RESET_TOOL,
+    {
+      description: 'Eval harness control: reset all mock state and seed fixture files and libraries.',
+      inputSchema: { files: z.record(z.string()).optional(), libraries: z.array(z.string()).optional() }
+    },
+    async ({ files, libraries }) => {
+      resetMockState(state);
+      for (const [path, content] of Object.entries(files ?? {})) {
+        state.files[normalisePath(path)] = content;
+      }
+      state.installedLibraries.push(...(libraries ?? []));
+      return ok({ files: Object.keys(state.files).length, libraries: state.installedLibraries.length });
+    }
+  );
+  server.registerResource(
+    'state',
+    STATE_RESOURCE_URI,
+    { description: 'Current mock state as JSON, for post-run assertions.', mimeType: 'application/json' },
+    async (uri) => ({
+      contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(state) }]
+    })
+  );
+
+  return { server, state };
+}
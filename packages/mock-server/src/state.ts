@@ -0,0 +1,88 @@
+export interface CompileRecord {
+  sketch: string;
+  board: string;
+  ok: boolean;
+  errors: string[];
+}
+
+export interface HttpRecord {
+  method: string;
+  path: string;
+  status: number;
+  body?: unknown;
+}
+
+export interface Letter {
+  id: string;
+  to: string;
+  subject: string;
+  body: string;
+  status: 'draft' | 'sent';
+}
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  start: string;
+  idempotencyKey: string;
+  syncStatus: 'pending' | 'synced';
+}
+
+/** Everything the mock tools mutate; exposed read-only as the `mock://state` resource. */
+export interface MockState {
+  /** Virtual filesystem keyed by normalised relative path. */
+  files: Record<string, string>;
+  projects: Array<{ name: string; board?: string }>;
+  installedLibraries: string[];
+  compiles: CompileRecord[];
+  uploads: Array<{ sketch: string; board: string; port?: string }>;
+  serial: {
+    baudRate: number;
+    /** Lines the running sketch has printed and the agent has not read yet. */
+    pending: string[];
+    /** Every line the running sketch has printed. */
+    output: string[];
+    /** Everything the agent wrote to the port. */
+    written: string[];
+  };
+  pins: Record<string, number>;
+  shell: Array<{ command: string; exitCode: number }>;
+  http: {
+    requests: HttpRecord[];
+    letters: Record<string, Letter>;
+    events: Record<string, CalendarEvent>;
+  };
+}
+
+export function createMockState(): MockState {
+  return {
+    files: {},
+    projects: [],
+    installedLibraries: [],
+    compiles: [],
+    uploads: [],
+    serial: { baudRate: 9600, pending: [], output: [], written: [] },
+    pins: {},
+    shell: [],
+    http: { requests: [], letters: {}, events: {} }
+  };
+}
+
+// Restores `state` to a fresh state in place, so references held by tools stay valid.
+export function resetMockState(state: MockState): void {
+  Object.assign(state, createMockState());
+}
+
+// Normalises `./a//b/../c` style paths to `a/c` so the virtual filesystem has one key per file.
+export function normalisePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
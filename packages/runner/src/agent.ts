@@ -0,0 +1,267 @@
+import type { EvalCase, RetryableError, RetryPolicy, RunTraceEvent } from '@mcp-agent-eval/schemas';
+import type { McpSession } from './mcpClient.js';
+import type { ChatMessage, ChatResponse, ModelProvider, ToolCallRequest } from './model.js';
+
+export interface AgentLoopInput {
+  evalCase: EvalCase;
+  session: McpSession;
+  model: ModelProvider;
+  maxTurns: number;
+  /** Wall-clock budget for a single tool call attempt. */
+  toolCallTimeoutMs: number;
+  retryPolicy: RetryPolicy;
+  /** Aborted when the case's wall-clock budget runs out. */
+  signal: AbortSignal;
+}
+
+export interface AgentLoopResult {
+  trace: RunTraceEvent[];
+  notes: string[];
+  totalTurns: number;
+  timedOut: boolean;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function buildSystemPrompt(evalCase: EvalCase): string {
+  const lines = [
+    'You are an agent completing a task with the tools provided by an MCP server.',
+    'Call tools when you need to act or observe; reply without tool calls when you are done.'
+  ];
+
+  if (evalCase.context.board) {
+    lines.push(`Target board: ${evalCase.context.board}`);
+  }
+  if (evalCase.context.constraints.length > 0) {
+    lines.push('Constraints:', ...evalCase.context.constraints.map((c) => `- ${c}`));
+  }
+  lines.push(
+    evalCase.context.assumptionsAllowed
+      ? 'You may make reasonable assumptions where details are missing.'
+      : 'Do not assume missing details; ask the user before acting on them.'
+  );
+
+  return lines.join('\n');
+}
+
+// Flattens an MCP CallToolResult (or any other payload) into text for the model.
+export function renderToolResult(result: unknown): { text: string; isError: boolean } {
+  if (result && typeof result === 'object' && Array.isArray((result as { content?: unknown }).content)) {
+    const record = result as { content: Array<{ type?: string; text?: string }>; isError?: boolean };
+    const text = record.content
+      .map((part) => (part.type === 'text' && typeof part.text === 'string' ? part.text : JSON.stringify(part)))
+      .join('\n');
+    return { text, isError: record.isError === true };
+  }
+
+  return { text: JSON.stringify(result ?? null), isError: false };
+}
+
+// Settles with `promise` unless `signal` aborts first, so a provider or session
+// that ignores the signal still cannot hold the loop open.
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts. The timer stays
+// referenced so a pending retry keeps the process alive.
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface ToolAttempt {
+  rendered: { text: string; isError: boolean };
+  errorKind?: RetryableError;
+}
+
+// One call to the MCP session, classified so the retry policy can decide
+// whether to try again. Every attempt is appended to `trace`.
+async function attemptToolCall(
+  session: McpSession,
+  call: ToolCallRequest,
+  turn: number,
+  attempt: number,
+  timeoutMs: number,
+  signal: AbortSignal,
+  trace: RunTraceEvent[]
+): Promise<ToolAttempt> {
+  trace.push({ type: 'tool_call', timestamp: now(), turn, toolName: call.name, parameters: call.arguments, attempt });
+
+  const callSignal = AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]);
+  try {
+    const result = await raceAbort(
+      session.callTool(call.name, call.arguments, { signal: callSignal, timeoutMs }),
+      callSignal
+    );
+    const rendered = renderToolResult(result);
+    trace.push({
+      type: 'tool_result',
+      timestamp: now(),
+      turn,
+      toolName: call.name,
+      result,
+      attempt,
+      ...(rendered.isError ? { errorMessage: rendered.text, errorKind: 'tool_error' as const } : {})
+    });
+    return { rendered, ...(rendered.isError ? { errorKind: 'tool_error' as const } : {}) };
+  } catch (error) {
+    const timedOut = callSignal.aborted;
+    const message = signal.aborted
+      ? 'Case timed out before the tool call returned'
+      : timedOut
+        ? `Tool call timed out after ${timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    const errorKind: RetryableError = timedOut ? 'timeout' : 'transport_error';
+    trace.push({
+      type: 'tool_result',
+      timestamp: now(),
+      turn,
+      toolName: call.name,
+      result: null,
+      errorMessage: message,
+      attempt,
+      errorKind,
+      ...(timedOut ? { timedOut: true } : {})
+    });
+    return { rendered: { text: message, isError: true }, errorKind };
+  }
+}
+
+function describeTurnInput(messages: ChatMessage[]): string {
+  const pending: string[] = [];
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    const message = messages[i];
+    if (message.role === 'assistant' || message.role === 'system') break;
+    pending.unshift(message.role === 'tool' ? `[${message.toolName}] ${message.content}` : message.content);
+  }
+  return pending.join('\n');
+}
+
+export async function runAgentLoop(input: AgentLoopInput): Promise<AgentLoopResult> {
+  const { evalCase, session, model, maxTurns, toolCallTimeoutMs, retryPolicy, signal } = input;
+  const trace: RunTraceEvent[] = [];
+  const notes: string[] = [];
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildSystemPrompt(evalCase) },
+    { role: 'user', content: evalCase.prompt }
+  ];
+
+  let turn = 0;
+  for (; turn < maxTurns && !signal.aborted; turn += 1) {
+    trace.push({ type: 'turn_start', timestamp: now(), turn, prompt: describeTurnInput(messages) });
+
+    let response: ChatResponse;
+    try {
+      response = await raceAbort(model.chat({ messages, tools: session.tools, signal }), signal);
+    } catch (error) {
+      if (signal.aborted) {
+        turn += 1;
+        break;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      trace.push({ type: 'model_response', timestamp: now(), turn, content: message, finishReason: 'error' });
+      notes.push(`Model ${model.id} failed on turn ${turn}: ${message}`);
+      turn += 1;
+      break;
+    }
+
+    if (response.toolCalls.length === 0) {
+      trace.push({ type: 'model_response', timestamp: now(), turn, content: response.content, finishReason: 'stop' });
+      turn += 1;
+      break;
+    }
+
+    if (turn === maxTurns - 1) {
+      trace.push({
+        type: 'model_response',
+        timestamp: now(),
+        turn,
+        content: response.content,
+        finishReason: 'max_turns'
+      });
+      notes.push(`Agent still requesting tools after ${maxTurns} turn(s)`);
+      turn += 1;
+      break;
+    }
+
+    trace.push({ type: 'model_response', timestamp: now(), turn, content: response.content, finishReason: 'tool_use' });
+    messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+    for (const call of response.toolCalls) {
+      if (signal.aborted) break;
+
+      let outcome = await attemptToolCall(session, call, turn, 1, toolCallTimeoutMs, signal, trace);
+      let attempt = 1;
+      while (
+        outcome.errorKind !== undefined &&
+        retryPolicy.retryOn.includes(outcome.errorKind) &&
+        attempt < retryPolicy.maxAttempts &&
+        !signal.aborted
+      ) {
+        try {
+          await sleep(retryPolicy.backoffMs * retryPolicy.backoffMultiplier ** (attempt - 1), signal);
+        } catch {
+          break;
+        }
+        attempt += 1;
+        outcome = await attemptToolCall(session, call, turn, attempt, toolCallTimeoutMs, signal, trace);
+      }
+
+      if (outcome.errorKind === 'timeout' && !signal.aborted) {
+        notes.push(`Tool ${call.name} timed out after ${toolCallTimeoutMs}ms on turn ${turn}`);
+      }
+      if (attempt > 1) {
+        const status = outcome.errorKind === undefined ? 'succeeded' : `last failed with ${outcome.errorKind}`;
+        notes.push(`Retried ${call.name} on turn ${turn}: ${attempt} attempt(s), ${status}`);
+      }
+
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        toolName: call.name,
+        content: outcome.rendered.text,
+        isError: outcome.rendered.isError
+      });
+    }
+  }
+
+  const timedOut = signal.aborted;
+  if (timedOut) {
+    notes.push(`Case timed out after ${turn} turn(s)`);
+  }
+  trace.push({ type: 'session_closed', timestamp: now(), totalTurns: turn, ...(timedOut ? { timedOut } : {}) });
+  return { trace, notes, totalTurns: turn, timedOut };
+}
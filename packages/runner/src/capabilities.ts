@@ -0,0 +1,278 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  capabilityMapSchema,
+  type Capability,
+  type CapabilityMap,
+  type CapabilityMatch
+} from '@mcp-agent-eval/schemas';
+import { globToRegExp } from './glob.js';
+
+// Tool names that map to a capability outright. Covers the canonical names and
+// common dialect variants.
+const KNOWN_TOOL_NAMES: Record<string, Capability> = {
+  // canonical
+  project_init: 'project_init',
+  file_read: 'file_read',
+  file_write: 'file_write',
+  shell_exec: 'shell_exec',
+  http_request: 'http_request',
+  build: 'build',
+  run: 'run',
+  test: 'test',
+  device_io: 'device_io',
+  compile: 'compile',
+  upload: 'upload',
+  simulate: 'simulate',
+  serial_read: 'serial_read',
+  serial_write: 'serial_write',
+  dependency_install: 'dependency_install',
+  // dialect variants
+  init_project: 'project_init',
+  create_project: 'project_init',
+  read_file: 'file_read',
+  write_file: 'file_write',
+  execute_shell: 'shell_exec',
+  http_fetch: 'http_request',
+  execute: 'run',
+  run_tests: 'test',
+  read_device: 'device_io',
+  write_device: 'device_io',
+  flash: 'upload',
+  install_library: 'dependency_install',
+  install_dependencies: 'dependency_install',
+  read_serial: 'serial_read',
+  write_serial: 'serial_write'
+};
+
+interface CapabilitySignals {
+  /** Tokens of the tool name. */
+  name: string[];
+  /** Words in the tool description. */
+  description: string[];
+  /** Tokens of top-level `inputSchema` property names. */
+  properties: string[];
+}
+
+const SIGNALS: Record<Capability, CapabilitySignals> = {
+  project_init: {
+    name: ['init', 'initialize', 'scaffold', 'project', 'new'],
+    description: ['project', 'scaffold', 'template', 'initialize', 'skeleton'],
+    properties: ['template', 'project', 'name']
+  },
+  file_read: {
+    name: ['read', 'file', 'cat', 'open', 'contents', 'get'],
+    description: ['read', 'contents', 'file'],
+    properties: ['path', 'file', 'filename', 'filepath']
+  },
+  file_write: {
+    name: ['write', 'file', 'save', 'edit', 'put', 'create'],
+    description: ['write', 'save', 'overwrite', 'file'],
+    properties: ['content', 'contents', 'text', 'path']
+  },
+  shell_exec: {
+    name: ['shell', 'exec', 'bash', 'terminal', 'command', 'cmd'],
+    description: ['shell', 'command', 'terminal', 'bash'],
+    properties: ['command', 'cmd', 'script', 'cwd']
+  },
+  http_request: {
+    name: ['http', 'fetch', 'request', 'api', 'curl'],
+    description: ['http', 'url', 'endpoint', 'api', 'request'],
+    properties: ['url', 'method', 'headers', 'body', 'endpoint']
+  },
+  build: {
+    name: ['build', 'make', 'bundle'],
+    description: ['build', 'artifact', 'bundle'],
+    properties: ['target', 'output']
+  },
+  run: {
+    name: ['run', 'execute', 'start', 'launch'],
+    description: ['run', 'execute', 'launch'],
+    properties: ['args', 'entrypoint', 'program']
+  },
+  test: {
+    name: ['test', 'tests', 'spec', 'check'],
+    description: ['test', 'tests', 'assert'],
+    properties: ['suite', 'pattern', 'filter']
+  },
+  device_io: {
+    name: ['device', 'pin', 'gpio', 'digital', 'analog', 'io'],
+    description: ['pin', 'gpio', 'digital', 'analog', 'sensor'],
+    properties: ['pin', 'value', 'mode']
+  },
+  compile: {
+    name: ['compile', 'verify', 'sketch'],
+    description: ['compile', 'compiler', 'sketch', 'firmware'],
+    properties: ['fqbn', 'sketch', 'board']
+  },
+  upload: {
+    name: ['upload', 'flash', 'deploy', 'burn', 'board'],
+    description: ['upload', 'flash', 'board', 'firmware'],
+    properties: ['port', 'fqbn', 'board']
+  },
+  simulate: {
+    name: ['simulate', 'simulator', 'sim', 'emulate', 'wokwi'],
+    description: ['simulate', 'simulation', 'emulator', 'virtual'],
+    properties: ['duration', 'steps']
+  },
+  serial_read: {
+    name: ['serial', 'monitor', 'read', 'listen'],
+    description: ['serial', 'monitor', 'baud'],
+    properties: ['baud', 'baudrate', 'port', 'timeout']
+  },
+  serial_write: {
+    name: ['serial', 'send', 'write'],
+    description: ['serial', 'send', 'baud'],
+    properties: ['baud', 'baudrate', 'data', 'message']
+  },
+  dependency_install: {
+    name: ['install', 'library', 'lib', 'dependency', 'dependencies', 'package', 'add'],
+    description: ['install', 'library', 'dependency', 'package'],
+    properties: ['library', 'libraries', 'package', 'packages', 'version']
+  }
+};
+
+const NAME_WEIGHT = 0.45;
+const DESCRIPTION_WEIGHT = 0.1;
+const PROPERTY_WEIGHT = 0.1;
+// Caps on description and property contributions so they can support, but not
+// outweigh, the tool name.
+const MAX_DESCRIPTION_MATCHES = 2;
+const MAX_PROPERTY_MATCHES = 2;
+// A single name token such as `get`, `add` or `send` is too generic to decide a
+// mapping: an inferred match needs a name token plus at least one more signal,
+// and a description word repeating that token does not count as a second one.
+const MIN_CONFIDENCE = 0.55;
+const MIN_DISTINCT_SIGNALS = 2;
+const ARGUMENT_HINT_CONFIDENCE = 0.9;
+// Inferred mappings never claim the certainty of a known name.
+const MAX_INFERRED_CONFIDENCE = 0.95;
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
+
+function propertyNames(inputSchema: Record<string, unknown>): string[] {
+  const properties = inputSchema.properties;
+  return properties !== null && typeof properties === 'object' ? Object.keys(properties) : [];
+}
+
+export interface ClassifiableTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+function score(
+  tool: ClassifiableTool,
+  capability: Capability
+): { score: number; distinctSignals: number; evidence: string[] } {
+  const signals = SIGNALS[capability];
+  const nameTokens = new Set(tokenize(tool.name));
+  const descriptionTokens = new Set(tokenize(tool.description ?? ''));
+  const propertyTokens = new Set(propertyNames(tool.inputSchema).flatMap(tokenize));
+
+  const names = signals.name.filter((token) => nameTokens.has(token));
+  const descriptions = signals.description
+    .filter((word) => descriptionTokens.has(word))
+    .slice(0, MAX_DESCRIPTION_MATCHES);
+  const properties = signals.properties.filter((token) => propertyTokens.has(token)).slice(0, MAX_PROPERTY_MATCHES);
+
+  return {
+    score:
+      Math.round(
+        (names.length * NAME_WEIGHT + descriptions.length * DESCRIPTION_WEIGHT + properties.length * PROPERTY_WEIGHT) *
+          100
+      ) / 100,
+    distinctSignals: new Set([...names, ...descriptions, ...properties]).size,
+    evidence: [
+      ...names.map((token) => `name token "${token}"`),
+      ...descriptions.map((word) => `description mentions "${word}"`),
+      ...properties.map((token) => `input property "${token}"`)
+    ]
+  };
+}
+
+function fromCapabilityMap(tool: ClassifiableTool, map: CapabilityMap): CapabilityMatch | undefined {
+  const exact = map.tools[tool.name];
+  if (exact !== undefined) {
+    return { capability: exact, confidence: 1, evidence: [`capability map entry "${tool.name}"`] };
+  }
+  for (const [pattern, capability] of Object.entries(map.tools)) {
+    if (/[*?]/.test(pattern) && globToRegExp(pattern).test(tool.name)) {
+      return { capability, confidence: 1, evidence: [`capability map pattern "${pattern}"`] };
+    }
+  }
+  return undefined;
+}
+
+// A hint only decides the mapping when one capability has more hinted
+// properties than any other.
+function fromArgumentHints(tool: ClassifiableTool, map: CapabilityMap): CapabilityMatch | undefined {
+  const properties = new Set(propertyNames(tool.inputSchema));
+  const ranked = (Object.entries(map.argumentHints) as Array<[Capability, string[]]>)
+    .map(([capability, hints]) => ({ capability, matched: hints.filter((hint) => properties.has(hint)) }))
+    .filter((entry) => entry.matched.length > 0)
+    .sort((a, b) => b.matched.length - a.matched.length);
+  const [best, runnerUp] = ranked;
+  if (best === undefined || best.matched.length === runnerUp?.matched.length) {
+    return undefined;
+  }
+  return {
+    capability: best.capability,
+    confidence: ARGUMENT_HINT_CONFIDENCE,
+    evidence: best.matched.map((hint) => `argument hint "${hint}"`)
+  };
+}
+
+// Maps a listed tool to the capability it most likely provides. A user-supplied
+// capability map wins, then known names, then argument hints from the map;
+// otherwise every capability is scored on name tokens (strongest), description
+// words and input property names. Returns undefined when nothing scores high
+// enough on at least two distinct signals, or the top two capabilities tie.
+export function classifyTool(tool: ClassifiableTool, map?: CapabilityMap): CapabilityMatch | undefined {
+  const mapped = map ? fromCapabilityMap(tool, map) : undefined;
+  if (mapped !== undefined) {
+    return mapped;
+  }
+
+  const known = KNOWN_TOOL_NAMES[tool.name];
+  if (known !== undefined) {
+    return { capability: known, confidence: 1, evidence: [`known tool name "${tool.name}"`] };
+  }
+
+  const hinted = map ? fromArgumentHints(tool, map) : undefined;
+  if (hinted !== undefined) {
+    return hinted;
+  }
+
+  const ranked = (Object.keys(SIGNALS) as Capability[])
+    .map((capability) => ({ capability, ...score(tool, capability) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = ranked;
+  if (
+    best.score < MIN_CONFIDENCE ||
+    best.distinctSignals < MIN_DISTINCT_SIGNALS ||
+    best.score === runnerUp?.score
+  ) {
+    return undefined;
+  }
+  return {
+    capability: best.capability,
+    confidence: Math.min(MAX_INFERRED_CONFIDENCE, best.score),
+    evidence: best.evidence
+  };
+}
+
+// Reads a capability map from a `.json`, `.yaml` or `.yml` file.
+export function loadCapabilityMap(path: string): CapabilityMap {
+  const text = readFileSync(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+  const parsed: unknown = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+  return capabilityMapSchema.parse(parsed ?? {});
+}
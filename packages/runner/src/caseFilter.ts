@@ -0,0 +1,30 @@
+import type { CaseFilter, CaseSelector, EvalCase } from '@mcp-agent-eval/schemas';
+import { globToRegExp } from './glob.js';
+
+function idMatches(id: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(id));
+}
+
+// Every list set on the selector must match.
+function matchesAll(evalCase: EvalCase, selector: CaseSelector): boolean {
+  return (
+    (selector.tags === undefined || selector.tags.some((tag) => evalCase.tags.includes(tag))) &&
+    (selector.categories === undefined || selector.categories.includes(evalCase.category)) &&
+    (selector.difficulties === undefined || selector.difficulties.includes(evalCase.difficulty)) &&
+    (selector.ids === undefined || idMatches(evalCase.id, selector.ids))
+  );
+}
+
+// Any list set on the selector may match.
+function matchesAny(evalCase: EvalCase, selector: CaseSelector): boolean {
+  return (
+    (selector.tags?.some((tag) => evalCase.tags.includes(tag)) ?? false) ||
+    (selector.categories?.includes(evalCase.category) ?? false) ||
+    (selector.difficulties?.includes(evalCase.difficulty) ?? false) ||
+    (selector.ids !== undefined && idMatches(evalCase.id, selector.ids))
+  );
+}
+
+export function matchesCaseFilter(evalCase: EvalCase, filter: CaseFilter): boolean {
+  return matchesAll(evalCase, filter.include) && !matchesAny(evalCase, filter.exclude);
+}
@@ -0,0 +1,107 @@
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { extname, join, relative, sep } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { BOARD_FORMATS, evalCaseSchema, type EvalCase, type PackManifest } from '@mcp-agent-eval/schemas';
+import { PACK_MANIFEST_FILE } from './packs.js';
+
+const CASE_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+
+export interface CaseLoadIssue {
+  /** Dotted path of the offending field, e.g. `objectiveChecks.0.pattern`; empty for whole-file errors. */
+  path: string;
+  message: string;
+}
+
+/** A case file that could not be loaded; the run continues without it. */
+export interface InvalidCase {
+  /** Path relative to the cases directory, with `/` separators. */
+  file: string;
+  issues: CaseLoadIssue[];
+}
+
+export interface LoadedCases {
+  cases: EvalCase[];
+  invalid: InvalidCase[];
+}
+
+// Subdirectories with their own pack.json belong to another pack and are skipped.
+function listCaseFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return existsSync(join(fullPath, PACK_MANIFEST_FILE)) ? [] : listCaseFiles(fullPath);
+      }
+      const isCase =
+        entry.isFile() && entry.name !== PACK_MANIFEST_FILE && CASE_EXTENSIONS.has(extname(entry.name).toLowerCase());
+      return isCase ? [fullPath] : [];
+    });
+}
+
+// A pack's `boardFormat` applies to its own cases only; cases of other packs in
+// the same directory are filtered out later by the runner.
+function boardIssue(evalCase: EvalCase, pack: PackManifest | undefined): CaseLoadIssue | undefined {
+  const board = evalCase.context.board;
+  if (pack?.boardFormat === undefined || evalCase.benchmarkPack !== pack.id || board === undefined) {
+    return undefined;
+  }
+  const format = BOARD_FORMATS[pack.boardFormat];
+  return format.pattern.test(board)
+    ? undefined
+    : { path: 'context.board', message: `board must be ${format.description}, got "${board}"` };
+}
+
+function parseCaseFile(fullPath: string): unknown {
+  const text = readFileSync(fullPath, 'utf8');
+  return extname(fullPath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+}
+
+// Loads every `.json`, `.yaml` and `.yml` case under `casesPath`, recursively.
+// Files that fail to parse or validate (including against `pack`'s board
+// format), and later files reusing an id, are returned as diagnostics instead
+// of aborting the load.
+export function loadCases(casesPath: string, pack?: PackManifest): LoadedCases {
+  const cases: EvalCase[] = [];
+  const invalid: InvalidCase[] = [];
+  const fileById = new Map<string, string>();
+
+  for (const fullPath of listCaseFiles(casesPath)) {
+    const file = relative(casesPath, fullPath).split(sep).join('/');
+    let parsed: unknown;
+    try {
+      parsed = parseCaseFile(fullPath);
+    } catch (error) {
+      invalid.push({ file, issues: [{ path: '', message: error instanceof Error ? error.message : String(error) }] });
+      continue;
+    }
+
+    const result = evalCaseSchema.safeParse(parsed);
+    if (!result.success) {
+      invalid.push({
+        file,
+        issues: result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }))
+      });
+      continue;
+    }
+
+    const board = boardIssue(result.data, pack);
+    if (board !== undefined) {
+      invalid.push({ file, issues: [board] });
+      continue;
+    }
+
+    const previous = fileById.get(result.data.id);
+    if (previous !== undefined) {
+      invalid.push({
+        file,
+        issues: [{ path: 'id', message: `Duplicate case id ${result.data.id}, first defined in ${previous}` }]
+      });
+      continue;
+    }
+    fileById.set(result.data.id, file);
+    cases.push(result.data);
+  }
+
+  return { cases, invalid };
+}
@@ -0,0 +1,170 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+  sessionCassetteSchema,
+  type CapabilityMap,
+  type CassetteInteraction,
+  type CaseFixtures,
+  type Capability,
+  type SessionCassette
+} from '@mcp-agent-eval/schemas';
+import { classifyTool } from './capabilities.js';
+import { stableStringify } from './hash.js';
+import type { CallToolOptions, McpSession, McpToolDefinition } from './mcpClient.js';
+
+type CallToolInteraction = Extract<CassetteInteraction, { type: 'call_tool' }>;
+
+export function cassetteKey(caseId: string, trial: number): string {
+  return `${caseId}#${trial}`;
+}
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+export interface CassetteRecorder {
+  /** Wraps a live session so its traffic is recorded under `key`. */
+  record(key: string, session: McpSession): McpSession;
+  save(): void;
+}
+
+export function createCassetteRecorder(path: string, serverName: string): CassetteRecorder {
+  const sessions: SessionCassette['sessions'] = {};
+
+  return {
+    record(key: string, session: McpSession): McpSession {
+      const interactions: CassetteInteraction[] = [
+        { type: 'list_tools', tools: session.tools.map((tool) => ({ ...tool })) }
+      ];
+      sessions[key] = interactions;
+
+      return {
+        serverName: session.serverName,
+        availableCapabilities: session.availableCapabilities,
+        tools: session.tools,
+        async callTool(toolName: string, parameters: Record<string, unknown>, options?: CallToolOptions) {
+          try {
+            const result = await session.callTool(toolName, parameters, options);
+            interactions.push({ type: 'call_tool', toolName, parameters, result });
+            return result;
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            interactions.push({ type: 'call_tool', toolName, parameters, error: message });
+            throw error;
+          }
+        },
+        ...(session.resetState
+          ? {
+              async resetState(fixtures: CaseFixtures) {
+                await session.resetState?.(fixtures);
+                interactions.push({ type: 'reset_state', fixtures });
+              }
+            }
+          : {}),
+        ...(session.readState
+          ? {
+              async readState(options?: { signal?: AbortSignal }) {
+                const state = await session.readState?.(options);
+                interactions.push({ type: 'read_state', state });
+                return state;
+              }
+            }
+          : {}),
+        async close() {
+          await session.close();
+        }
+      };
+    },
+    save() {
+      const cassette: SessionCassette = {
+        version: 1,
+        serverName,
+        recordedAt: new Date().toISOString(),
+        sessions
+      };
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`, 'utf8');
+    }
+  };
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+export interface CassettePlayer {
+  /** Serves the session recorded under `key`; throws if the cassette has none. */
+  replay(key: string): McpSession;
+  /** Calls the cassette had no recorded response for, in the order they were made. */
+  readonly misses: string[];
+}
+
+// Recorded tools are classified again so replays pick up classifier and
+// capability map changes.
+export function loadCassette(path: string, capabilityMap?: CapabilityMap): CassettePlayer {
+  const cassette = sessionCassetteSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+  const misses: string[] = [];
+
+  return {
+    misses,
+    replay(key: string): McpSession {
+      const interactions = cassette.sessions[key];
+      const listed = interactions?.find((item) => item.type === 'list_tools');
+      if (!interactions || !listed || listed.type !== 'list_tools') {
+        throw new Error(`Cassette ${path} has no recorded session for ${key}`);
+      }
+
+      // Each recorded call answers at most one replayed call with the same tool
+      // name and parameters, in recorded order.
+      const pending = interactions.filter((item): item is CallToolInteraction => item.type === 'call_tool');
+      const states = interactions.flatMap((item) => (item.type === 'read_state' ? [item.state] : []));
+      const tools: McpToolDefinition[] = listed.tools.map(({ name, description, inputSchema }) => {
+        const match = classifyTool({ name, description, inputSchema }, capabilityMap);
+        return {
+          name,
+          description,
+          inputSchema,
+          ...(match !== undefined ? { capability: match.capability, capabilityMatch: match } : {})
+        };
+      });
+      const availableCapabilities = new Set<Capability>(
+        tools.flatMap((tool) => (tool.capability !== undefined ? [tool.capability] : []))
+      );
+
+      return {
+        serverName: cassette.serverName,
+        availableCapabilities,
+        tools,
+        async callTool(toolName: string, parameters: Record<string, unknown>) {
+          const wanted = stableStringify(parameters);
+          const index = pending.findIndex(
+            (item) => item.toolName === toolName && stableStringify(item.parameters) === wanted
+          );
+          if (index === -1) {
+            const miss = `${key}: ${toolName} ${wanted}`;
+            misses.push(miss);
+            throw new Error(`Cassette ${path} has no recorded response for ${miss}`);
+          }
+          const [match] = pending.splice(index, 1);
+          if (match.error !== undefined) {
+            throw new Error(match.error);
+          }
+          return match.result;
+        },
+        ...(interactions.some((item) => item.type === 'reset_state')
+          ? {
+              async resetState() {
+                // State was reset and seeded when the cassette was recorded.
+              }
+            }
+          : {}),
+        ...(states.length > 0
+          ? {
+              async readState() {
+                return states.shift();
+              }
+            }
+          : {}),
+        async close() {
+          // no-op
+        }
+      };
+    }
+  };
+}
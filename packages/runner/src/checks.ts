@@ -0,0 +1,236 @@
+import { Ajv } from 'ajv';
+import { FQBN_PATTERN, type EvalCase, type ObjectiveCheck, type RunTraceEvent } from '@mcp-agent-eval/schemas';
+import { clarifyingResponses, extractQuestions, finalAnswer } from '@mcp-agent-eval/scoring';
+import type { McpToolDefinition } from './mcpClient.js';
+
+// Capabilities whose calls change state outside the conversation. A question
+// asked after one of these no longer counts as clarification.
+const MUTATING_CAPABILITIES = new Set<string>([
+  'project_init',
+  'file_write',
+  'shell_exec',
+  'http_request',
+  'run',
+  'upload',
+  'serial_write',
+  'device_io',
+  'dependency_install'
+]);
+
+const READ_ONLY_HTTP_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+export interface CheckContext {
+  evalCase: EvalCase;
+  availableCapabilities: Set<string>;
+  trace: RunTraceEvent[];
+  tools: McpToolDefinition[];
+  capabilityAliases: Record<string, string>;
+}
+
+export interface CheckOutcome {
+  passed: boolean;
+  note?: string;
+}
+
+type ToolCallEvent = Extract<RunTraceEvent, { type: 'tool_call' }>;
+type ToolResultEvent = Extract<RunTraceEvent, { type: 'tool_result' }>;
+
+// A check value names either a concrete tool or a capability; a tool matches
+// when its own name, its mapped capability, or that capability's pack alias
+// equals the value.
+function toolMatcher(context: CheckContext): (toolName: string, value: string) => boolean {
+  const capabilityByTool = new Map<string, string>();
+  for (const tool of context.tools) {
+    if (tool.capability !== undefined) {
+      capabilityByTool.set(tool.name, tool.capability);
+    }
+  }
+
+  return (toolName, value) => {
+    if (toolName === value) return true;
+    const capability = capabilityByTool.get(toolName);
+    if (capability === undefined) return false;
+    return capability === value || context.capabilityAliases[capability] === value;
+  };
+}
+
+function toolCalls(trace: RunTraceEvent[]): ToolCallEvent[] {
+  return trace.filter((event): event is ToolCallEvent => event.type === 'tool_call');
+}
+
+function toolResults(trace: RunTraceEvent[]): ToolResultEvent[] {
+  return trace.filter((event): event is ToolResultEvent => event.type === 'tool_result');
+}
+
+export function isMutatingCall(event: ToolCallEvent, tools: McpToolDefinition[]): boolean {
+  const capability = tools.find((tool) => tool.name === event.toolName)?.capability;
+  if (capability === undefined || !MUTATING_CAPABILITIES.has(capability)) {
+    return false;
+  }
+  if (capability === 'http_request' && typeof event.parameters.method === 'string') {
+    return !READ_ONLY_HTTP_METHODS.has(event.parameters.method.toUpperCase());
+  }
+  return true;
+}
+
+// Arduino tools name the target board in an `fqbn` or `board` argument.
+function boardArgument(event: ToolCallEvent): string | undefined {
+  const value = event.parameters.fqbn ?? event.parameters.board;
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Board options (`:menu=option,...`) do not change which board is targeted.
+function baseFqbn(fqbn: string): string {
+  return fqbn.split(':').slice(0, 3).join(':');
+}
+
+// Accepts a bare JSON document or the first fenced ```json block in the answer.
+function parseJsonAnswer(answer: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(answer);
+  return JSON.parse((fenced ? fenced[1] : answer).trim());
+}
+
+export function evaluateObjectiveCheck(check: ObjectiveCheck, context: CheckContext): CheckOutcome {
+  const matches = toolMatcher(context);
+
+  switch (check.type) {
+    case 'requires_capability': {
+      const passed = context.availableCapabilities.has(check.value);
+      return passed ? { passed } : { passed, note: `Missing capability: ${check.value}` };
+    }
+    case 'requires_prompt_contains': {
+      const passed = context.evalCase.prompt.toLowerCase().includes(check.value.toLowerCase());
+      return passed ? { passed } : { passed, note: `Prompt missing required token: ${check.value}` };
+    }
+    case 'requires_question': {
+      const passed = context.evalCase.prompt.includes('?');
+      return passed ? { passed } : { passed, note: 'Expected a clarifying question in prompt framing' };
+    }
+    case 'tool_called': {
+      const passed = toolCalls(context.trace).some((event) => matches(event.toolName, check.value));
+      return passed ? { passed } : { passed, note: `Expected a call to ${check.value}` };
+    }
+    case 'tool_succeeded': {
+      const passed = toolResults(context.trace).some(
+        (event) => matches(event.toolName, check.value) && event.errorMessage === undefined
+      );
+      return passed ? { passed } : { passed, note: `Expected a successful call to ${check.value}` };
+    }
+    case 'tool_not_called': {
+      const offending = toolCalls(context.trace).filter((event) => matches(event.toolName, check.value));
+      return offending.length === 0
+        ? { passed: true }
+        : { passed: false, note: `Unexpected call to ${check.value} (${offending.length} time(s))` };
+    }
+    case 'tool_called_with': {
+      const pattern = new RegExp(check.pattern ?? '');
+      const passed = toolCalls(context.trace).some(
+        (event) => matches(event.toolName, check.value) && pattern.test(JSON.stringify(event.parameters))
+      );
+      return passed
+        ? { passed }
+        : { passed, note: `Expected a call to ${check.value} with arguments matching /${check.pattern}/` };
+    }
+    case 'tool_order': {
+      // Steps must appear as an in-order subsequence of the tool calls.
+      const steps = check.value.split('>').map((step) => step.trim()).filter((step) => step.length > 0);
+      let next = 0;
+      for (const event of toolCalls(context.trace)) {
+        if (next < steps.length && matches(event.toolName, steps[next])) {
+          next += 1;
+        }
+      }
+      return next === steps.length
+        ? { passed: true }
+        : { passed: false, note: `Expected tool order ${steps.join(' > ')}; stopped before ${steps[next]}` };
+    }
+    case 'valid_fqbn': {
+      const boards = toolCalls(context.trace)
+        .filter((event) => matches(event.toolName, check.value))
+        .map(boardArgument)
+        .filter((board): board is string => board !== undefined);
+      if (boards.length === 0) {
+        return { passed: false, note: `Expected a call to ${check.value} with an fqbn or board argument` };
+      }
+      const invalid = boards.filter((board) => !FQBN_PATTERN.test(board));
+      return invalid.length === 0
+        ? { passed: true }
+        : { passed: false, note: `Malformed FQBN passed to ${check.value}: ${invalid.join(', ')}` };
+    }
+    case 'uses_case_board': {
+      const expected = context.evalCase.context.board;
+      if (expected === undefined) {
+        return { passed: false, note: 'Case has no context.board to compare against' };
+      }
+      const boards = toolCalls(context.trace)
+        .filter((event) => matches(event.toolName, check.value))
+        .map(boardArgument)
+        .filter((board): board is string => board !== undefined);
+      const passed = boards.some((board) => baseFqbn(board) === baseFqbn(expected));
+      if (passed) {
+        return { passed };
+      }
+      return {
+        passed,
+        note:
+          boards.length === 0
+            ? `Expected a call to ${check.value} targeting ${expected}`
+            : `Calls to ${check.value} targeted ${[...new Set(boards)].join(', ')}, not ${expected}`
+      };
+    }
+    case 'asks_question': {
+      const topic = check.value.toLowerCase();
+      const clarifying = new Set<RunTraceEvent>(clarifyingResponses(context.trace));
+      for (const event of context.trace) {
+        if (event.type === 'tool_call' && isMutatingCall(event, context.tools)) {
+          return {
+            passed: false,
+            note: `Mutating call to ${event.toolName} before asking about ${check.value}`
+          };
+        }
+        if (
+          event.type === 'model_response' &&
+          clarifying.has(event) &&
+          extractQuestions(event.content).some((question) => question.toLowerCase().includes(topic))
+        ) {
+          return { passed: true };
+        }
+      }
+      return { passed: false, note: `Expected a clarifying question about ${check.value}` };
+    }
+    case 'final_answer_matches': {
+      const answer = finalAnswer(context.trace);
+      if (answer === undefined) {
+        return { passed: false, note: 'No final answer in trace' };
+      }
+      const passed = new RegExp(check.value).test(answer);
+      return passed ? { passed } : { passed, note: `Final answer does not match /${check.value}/` };
+    }
+    case 'final_answer_schema': {
+      const answer = finalAnswer(context.trace);
+      if (answer === undefined) {
+        return { passed: false, note: 'No final answer in trace' };
+      }
+      let document: unknown;
+      try {
+        document = parseJsonAnswer(answer);
+      } catch {
+        return { passed: false, note: 'Final answer is not valid JSON' };
+      }
+      let validate: ReturnType<typeof ajv.compile>;
+      try {
+        validate = ajv.compile(check.schema ?? {});
+      } catch (error) {
+        return {
+          passed: false,
+          note: `Check schema does not compile: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+      return validate(document)
+        ? { passed: true }
+        : { passed: false, note: `Final answer violates schema: ${ajv.errorsText(validate.errors)}` };
+    }
+  }
+}
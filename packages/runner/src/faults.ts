@@ -0,0 +1,70 @@
+import type { Fault } from '@mcp-agent-eval/schemas';
+import type { CallToolOptions, McpSession } from './mcpClient.js';
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Wraps a session so the case's declared faults fire on matching tool calls.
+// Call counters are per wrapper, so wrap once per case run.
+export function withFaults(session: McpSession, faults: Fault[]): McpSession {
+  const callCounts = new Map<string, number>();
+
+  function matches(fault: Fault, toolName: string): boolean {
+    if (fault.tool === toolName) return true;
+    return session.tools.find((tool) => tool.name === toolName)?.capability === fault.tool;
+  }
+
+  return {
+    serverName: session.serverName,
+    availableCapabilities: session.availableCapabilities,
+    tools: session.tools,
+    async callTool(toolName: string, parameters: Record<string, unknown>, options?: CallToolOptions) {
+      const call = (callCounts.get(toolName) ?? 0) + 1;
+      callCounts.set(toolName, call);
+
+      const active = faults.filter(
+        (fault) => matches(fault, toolName) && (fault.calls === undefined || fault.calls.includes(call))
+      );
+
+      for (const fault of active.filter((item) => item.kind === 'latency')) {
+        await delay(fault.latencyMs ?? 0, options?.signal);
+      }
+
+      const failure = active.find((fault) => fault.kind !== 'latency');
+      if (failure?.kind === 'throw') {
+        throw new Error(failure.message ?? `Injected fault: ${toolName} call ${call} failed`);
+      }
+      if (failure?.kind === 'is_error') {
+        return {
+          isError: true,
+          content: [{ type: 'text', text: failure.message ?? `Injected fault: ${toolName} call ${call} failed` }]
+        };
+      }
+      if (failure?.kind === 'malformed') {
+        return { content: [{ type: 'text', text: failure.message ?? '{"status":"ok","data":[{"id":' }] };
+      }
+
+      return session.callTool(toolName, parameters, options);
+    },
+    ...(session.resetState ? { resetState: session.resetState.bind(session) } : {}),
+    ...(session.readState ? { readState: session.readState.bind(session) } : {}),
+    async close() {
+      await session.close();
+    }
+  };
+}
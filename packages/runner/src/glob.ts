@@ -0,0 +1,9 @@
+// `*` matches any run of characters and `?` a single character; the whole
+// string must match.
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
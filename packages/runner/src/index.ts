@@ -1,3 +1,29 @@
 export { runSuite, writeReport } from './runner.js';
-export { getBenchmarkPackConfig } from './packs.js';
-export type { RunReport, RunSummary, CaseResult } from './types.js';
+export {
+  discoverBenchmarkPacks,
+  getBenchmarkPackConfig,
+  loadPackManifest,
+  resolveBenchmarkPack,
+  PACK_MANIFEST_FILE
+} from './packs.js';
+export type { BenchmarkPackConfig } from './packs.js';
+export { classifyTool, loadCapabilityMap } from './capabilities.js';
+export {
+  createModelProviderFactory,
+  makeAnthropicProvider,
+  makeOpenAiProvider,
+  makeScriptedProvider
+} from './providers.js';
+export type { ChatMessage, ChatRequest, ChatResponse, ModelProvider, ToolCallRequest } from './model.js';
+export type {
+  RunReport,
+  RunSummary,
+  CaseResult,
+  CaseSelection,
+  CaseTrialStats,
+  CheckResult,
+  TrialResult
+} from './types.js';
+export type { Interval, ScoreStats } from './stats.js';
+export type { WorkspaceSnapshot } from './workspace.js';
+export type { CaseLoadIssue, InvalidCase } from './caseLoader.js';
@@ -0,0 +1,41 @@
+import type { EvalCase, JudgeConfig } from '@mcp-agent-eval/schemas';
+import {
+  makeHeuristicJudge,
+  makeModelJudge,
+  type EpistemicJudge,
+  type JudgeModel
+} from '@mcp-agent-eval/scoring';
+import type { ModelProvider } from './model.js';
+import { createModelProviderFactory } from './providers.js';
+
+export function judgeModelFromProvider(provider: ModelProvider): JudgeModel {
+  return {
+    id: provider.id,
+    async complete(prompt, options) {
+      const response = await provider.chat({
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user }
+        ],
+        tools: [],
+        signal: options?.signal
+      });
+      return response.content;
+    }
+  };
+}
+
+// Returns a per-case judge factory so scripted judge fixtures can key on case id.
+export function createJudgeFactory(config: JudgeConfig): (evalCase: EvalCase) => EpistemicJudge {
+  if (config.type === 'heuristic') {
+    const judge = makeHeuristicJudge();
+    return () => judge;
+  }
+
+  const createProvider = createModelProviderFactory({
+    modelName: config.modelName,
+    providerConfig: config.provider,
+    capabilityAliases: {}
+  });
+  return (evalCase) => makeModelJudge(judgeModelFromProvider(createProvider(evalCase)));
+}
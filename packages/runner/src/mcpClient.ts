@@ -2,69 +2,90 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import type { Capability, McpTransportConfig } from '@mcp-agent-eval/schemas';
-
-// Maps MCP server tool names → normalised Capability enum values.
-// Covers both canonical names and common dialect variants.
-const TOOL_TO_CAPABILITY: Record<string, Capability> = {
-  // canonical
-  project_init: 'project_init',
-  file_read: 'file_read',
-  file_write: 'file_write',
-  shell_exec: 'shell_exec',
-  http_request: 'http_request',
-  build: 'build',
-  run: 'run',
-  test: 'test',
-  device_io: 'device_io',
-  compile: 'compile',
-  upload: 'upload',
-  simulate: 'simulate',
-  serial_read: 'serial_read',
-  serial_write: 'serial_write',
-  dependency_install: 'dependency_install',
-  // dialect variants
-  init_project: 'project_init',
-  create_project: 'project_init',
-  read_file: 'file_read',
-  write_file: 'file_write',
-  execute_shell: 'shell_exec',
-  http_fetch: 'http_request',
-  execute: 'run',
-  run_tests: 'test',
-  read_device: 'device_io',
-  write_device: 'device_io',
-  flash: 'upload',
-  install_library: 'dependency_install',
-  install_dependencies: 'dependency_install',
-  read_serial: 'serial_read',
-  write_serial: 'serial_write'
-};
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { statSync } from 'node:fs';
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  Capability,
+  CapabilityMap,
+  CapabilityMatch,
+  CaseFixtures,
+  McpTransportConfig
+} from '@mcp-agent-eval/schemas';
+import { classifyTool } from './capabilities.js';
+
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  capability?: Capability;
+  /** Confidence and evidence behind `capability`; set whenever `capability` is. */
+  capabilityMatch?: CapabilityMatch;
+}
+
+export interface CallToolOptions {
+  /** Aborted when the tool call or the whole case runs out of time. */
+  signal?: AbortSignal;
+  /** Overrides the MCP SDK's default 60s request timeout. */
+  timeoutMs?: number;
+}
 
 export interface McpSession {
   readonly serverName: string;
   readonly availableCapabilities: Set<Capability>;
-  callTool(toolName: string, parameters: Record<string, unknown>): Promise<unknown>;
+  readonly tools: McpToolDefinition[];
+  callTool(toolName: string, parameters: Record<string, unknown>, options?: CallToolOptions): Promise<unknown>;
+  /** Resets server state and seeds fixtures; only state-aware servers support it. */
+  resetState?(fixtures: CaseFixtures): Promise<void>;
+  /** Reads the server's state for `expectedState` assertions; only state-aware servers support it. */
+  readState?(options?: { signal?: AbortSignal }): Promise<unknown>;
   close(): Promise<void>;
 }
 
+export interface ConnectOptions {
+  connectTimeoutMs?: number;
+  /**
+   * Per-case workspace directory. Stdio servers are spawned with it as their
+   * cwd, `{workspace}` in their args is replaced with it, and every server is
+   * offered it as its only MCP root.
+   */
+  workspaceDir?: string;
+  /** User-supplied tool mappings that take precedence over the built-in classifier. */
+  capabilityMap?: CapabilityMap;
+}
+
+// Control surface of state-aware servers, matching packages/mock-server. The
+// reset tool is hidden from the agent's tool list.
+const RESET_TOOL = '__mock_reset';
+const STATE_RESOURCE_URI = 'mock://state';
+
 // ─── Dry-run stub ─────────────────────────────────────────────────────────────
 
+const DRY_RUN_CAPABILITIES: Capability[] = [
+  'file_read',
+  'project_init',
+  'file_write',
+  'shell_exec',
+  'http_request',
+  'build',
+  'run',
+  'test',
+  'dependency_install',
+  'device_io'
+];
+
 function makeDryRunSession(serverName: string): McpSession {
   return {
     serverName,
-    availableCapabilities: new Set<Capability>([
-      'file_read',
-      'project_init',
-      'file_write',
-      'shell_exec',
-      'http_request',
-      'build',
-      'run',
-      'test',
-      'dependency_install',
-      'device_io'
-    ]),
+    availableCapabilities: new Set<Capability>(DRY_RUN_CAPABILITIES),
+    tools: DRY_RUN_CAPABILITIES.map((capability) => ({
+      name: capability,
+      description: `Dry-run stub for the ${capability} capability`,
+      inputSchema: { type: 'object', properties: {}, additionalProperties: true },
+      capability,
+      capabilityMatch: { capability, confidence: 1, evidence: [`known tool name "${capability}"`] }
+    })),
     async callTool(_toolName: string, _parameters: Record<string, unknown>) {
       return { ok: true, dryRun: true };
     },
@@ -76,47 +97,116 @@ function makeDryRunSession(serverName: string): McpSession {
 
 // ─── Live session ─────────────────────────────────────────────────────────────
 
+// Per-case servers run inside their workspace, so a relative script or binary
+// given on the command line is pinned to the caller's cwd first. Only existing
+// files are rewritten: directory arguments such as `.` keep pointing into the
+// workspace, and bare command names are left for PATH lookup.
+function resolveSpawnPath(value: string): string {
+  if (isAbsolute(value) || value.startsWith('-') || value.includes('{workspace}')) {
+    return value;
+  }
+  const candidate = resolve(value);
+  return statSync(candidate, { throwIfNoEntry: false })?.isFile() ? candidate : value;
+}
+
 async function makeLiveSession(
   serverName: string,
-  transportConfig: McpTransportConfig
+  transportConfig: McpTransportConfig,
+  connectTimeoutMs: number,
+  workspaceDir: string | undefined,
+  capabilityMap: CapabilityMap | undefined
 ): Promise<McpSession> {
   const client = new Client(
     { name: 'mcp-agent-eval', version: '0.1.0' },
-    { capabilities: {} }
+    { capabilities: workspaceDir !== undefined ? { roots: { listChanged: false } } : {} }
   );
+  if (workspaceDir !== undefined) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({
+      roots: [{ uri: pathToFileURL(workspaceDir).href, name: 'workspace' }]
+    }));
+  }
 
   let transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport;
 
   if (transportConfig.type === 'stdio') {
-    transport = new StdioClientTransport({
-      command: transportConfig.command,
-      args: transportConfig.args
-    });
+    transport = new StdioClientTransport(
+      workspaceDir !== undefined
+        ? {
+            command: /[\\/]/.test(transportConfig.command)
+              ? resolveSpawnPath(transportConfig.command)
+              : transportConfig.command,
+            args: transportConfig.args.map((arg) => resolveSpawnPath(arg).replaceAll('{workspace}', workspaceDir)),
+            cwd: workspaceDir
+          }
+        : { command: transportConfig.command, args: transportConfig.args }
+    );
   } else if (transportConfig.type === 'sse') {
     transport = new SSEClientTransport(new URL(transportConfig.url));
   } else {
     transport = new StreamableHTTPClientTransport(new URL(transportConfig.url));
   }
 
-  await client.connect(transport);
+  // Bound the handshake and tool discovery so a hung server cannot stall the run.
+  const connectSignal = AbortSignal.timeout(connectTimeoutMs);
+  let toolsResult: Awaited<ReturnType<Client['listTools']>>;
+  try {
+    await client.connect(transport, { signal: connectSignal, timeout: connectTimeoutMs });
+    toolsResult = await client.listTools({}, { signal: connectSignal, timeout: connectTimeoutMs });
+  } catch (error) {
+    await client.close().catch(() => undefined);
+    if (connectSignal.aborted) {
+      throw new Error(`Timed out connecting to MCP server ${serverName} after ${connectTimeoutMs}ms`);
+    }
+    throw error;
+  }
 
-  // Discover capabilities by listing tools and mapping names.
-  const toolsResult = await client.listTools();
+  // Discover capabilities by listing tools and classifying each one.
   const availableCapabilities = new Set<Capability>();
+  const tools: McpToolDefinition[] = [];
+  const stateAware = toolsResult.tools.some((tool) => tool.name === RESET_TOOL);
   for (const tool of toolsResult.tools) {
-    const cap = TOOL_TO_CAPABILITY[tool.name];
-    if (cap !== undefined) {
-      availableCapabilities.add(cap);
+    if (tool.name === RESET_TOOL) continue;
+    const definition = {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema as Record<string, unknown>
+    };
+    const match = classifyTool(definition, capabilityMap);
+    if (match !== undefined) {
+      availableCapabilities.add(match.capability);
     }
+    tools.push({
+      ...definition,
+      ...(match !== undefined ? { capability: match.capability, capabilityMatch: match } : {})
+    });
   }
 
   return {
     serverName,
     availableCapabilities,
-    async callTool(toolName: string, parameters: Record<string, unknown>) {
-      const result = await client.callTool({ name: toolName, arguments: parameters });
+    tools,
+    async callTool(toolName: string, parameters: Record<string, unknown>, options?: CallToolOptions) {
+      const result = await client.callTool({ name: toolName, arguments: parameters }, undefined, {
+        signal: options?.signal,
+        ...(options?.timeoutMs !== undefined ? { timeout: options.timeoutMs } : {})
+      });
       return result;
     },
+    ...(stateAware
+      ? {
+          async resetState(fixtures: CaseFixtures) {
+            const result = await client.callTool({ name: RESET_TOOL, arguments: fixtures });
+            if (result.isError) {
+              throw new Error(`Failed to reset ${serverName} state: ${JSON.stringify(result.content)}`);
+            }
+          },
+          async readState(options?: { signal?: AbortSignal }) {
+            const resource = await client.readResource({ uri: STATE_RESOURCE_URI }, { signal: options?.signal });
+            const content = resource.contents[0];
+            return content && 'text' in content ? JSON.parse(content.text) : undefined;
+          }
+        }
+      : {}),
     async close() {
       await client.close();
     }
@@ -128,7 +218,8 @@ async function makeLiveSession(
 export async function connectMcp(
   serverName: string,
   dryRun: boolean,
-  transportConfig?: McpTransportConfig
+  transportConfig?: McpTransportConfig,
+  options: ConnectOptions = {}
 ): Promise<McpSession> {
   if (dryRun) {
     return makeDryRunSession(serverName);
@@ -142,5 +233,11 @@ export async function connectMcp(
     );
   }
 
-  return makeLiveSession(serverName, transportConfig);
+  return makeLiveSession(
+    serverName,
+    transportConfig,
+    options.connectTimeoutMs ?? 30_000,
+    options.workspaceDir,
+    options.capabilityMap
+  );
 }
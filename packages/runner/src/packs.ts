@@ -1,27 +1,74 @@
-import type { BenchmarkPack, Capability } from '@mcp-agent-eval/schemas';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { packManifestSchema, type BenchmarkPack, type PackManifest } from '@mcp-agent-eval/schemas';
+import { contentHash } from './hash.js';
 
-export interface BenchmarkPackConfig {
-  id: BenchmarkPack;
+export const PACK_MANIFEST_FILE = 'pack.json';
+
+export interface BenchmarkPackConfig extends PackManifest {
+  /** Absolute path of the directory holding `pack.json` and, by default, the pack's cases. */
   defaultCasesPath: string;
-  capabilityAliases: Record<string, Capability>;
 }
 
-const generalAliases: Record<string, Capability> = {
-  compile: 'build',
-  upload: 'run',
-  simulate: 'test',
-  serial_read: 'device_io',
-  serial_write: 'device_io'
-};
+export function loadPackManifest(dir: string): BenchmarkPackConfig {
+  const manifest = packManifestSchema.parse(JSON.parse(readFileSync(join(dir, PACK_MANIFEST_FILE), 'utf8')));
+  return { ...manifest, defaultCasesPath: resolve(dir) };
+}
+
+// Every immediate subdirectory of `packsPath` with a `pack.json` is a pack.
+export function discoverBenchmarkPacks(packsPath: string): BenchmarkPackConfig[] {
+  if (!existsSync(packsPath)) {
+    return [];
+  }
+  const packs = readdirSync(packsPath, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(join(packsPath, entry.name, PACK_MANIFEST_FILE)))
+    .map((entry) => loadPackManifest(join(packsPath, entry.name)))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  for (const [index, pack] of packs.entries()) {
+    const duplicate = packs.findIndex((other) => other.id === pack.id);
+    if (duplicate !== index) {
+      throw new Error(
+        `Benchmark pack "${pack.id}" is declared in both ${packs[duplicate].defaultCasesPath} and ${pack.defaultCasesPath}`
+      );
+    }
+  }
+  return packs;
+}
 
-export const BENCHMARK_PACKS: Record<BenchmarkPack, BenchmarkPackConfig> = {
-  general: {
-    id: 'general',
-    defaultCasesPath: 'cases/general',
-    capabilityAliases: generalAliases
+export function getBenchmarkPackConfig(pack: BenchmarkPack, packsPath: string): BenchmarkPackConfig {
+  const packs = discoverBenchmarkPacks(packsPath);
+  const found = packs.find((candidate) => candidate.id === pack);
+  if (!found) {
+    const known = packs.map((candidate) => candidate.id).join(', ');
+    throw new Error(`Unknown benchmark pack "${pack}"; ${packsPath} declares ${known || 'no packs'}`);
   }
-};
+  return found;
+}
+
+// A run's pack comes from the manifest next to its cases when there is one, and
+// is otherwise looked up under `packsPath`.
+export function resolveBenchmarkPack(
+  pack: BenchmarkPack,
+  casesPath: string,
+  packsPath?: string
+): BenchmarkPackConfig {
+  if (existsSync(join(casesPath, PACK_MANIFEST_FILE))) {
+    const local = loadPackManifest(casesPath);
+    if (local.id !== pack) {
+      throw new Error(`${casesPath} declares benchmark pack "${local.id}", not "${pack}"`);
+    }
+    return local;
+  }
+  if (packsPath === undefined) {
+    throw new Error(`No ${PACK_MANIFEST_FILE} in ${casesPath}; set packsPath to resolve benchmark pack "${pack}"`);
+  }
+  return getBenchmarkPackConfig(pack, packsPath);
+}
 
-export function getBenchmarkPackConfig(pack: BenchmarkPack): BenchmarkPackConfig {
-  return BENCHMARK_PACKS[pack];
+// Covers the manifest and the content hash of every loaded case, so two runs
+// with the same pack hash scored the same cases with the same aliases, weights
+// and thresholds. The pack's location on disk is left out.
+export function computePackHash(pack: BenchmarkPackConfig, caseHashes: Record<string, string>): string {
+  const { defaultCasesPath: _location, ...manifest } = pack;
+  return contentHash({ manifest, cases: caseHashes });
 }
@@ -0,0 +1,24 @@
+// Runs `worker` over `items` with at most `concurrency` calls in flight. Each
+// worker slot pulls the next item as soon as it finishes one, and `slot`
+// identifies the slot so callers can bind per-slot resources such as sessions.
+// Results keep the order of `items` regardless of completion order.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, slot: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function drain(slot: number): Promise<void> {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await worker(items[index], index, slot);
+    }
+  }
+
+  const slots = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: slots }, (_, slot) => drain(slot)));
+  return results;
+}
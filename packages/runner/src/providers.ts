@@ -0,0 +1,301 @@
+import { readFileSync } from 'node:fs';
+import {
+  scriptedModelFixtureSchema,
+  type Capability,
+  type EvalCase,
+  type ModelProviderConfig,
+  type ScriptedModelFixture
+} from '@mcp-agent-eval/schemas';
+import type { McpToolDefinition } from './mcpClient.js';
+import {
+  makeDryRunModel,
+  passThroughTools,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatResponse,
+  type ModelProvider,
+  type ToolCallRequest
+} from './model.js';
+
+function readApiKey(envVar: string): string {
+  const value = process.env[envVar];
+  if (!value) {
+    throw new Error(`Model provider requires the ${envVar} environment variable to be set.`);
+  }
+  return value;
+}
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Model request failed (${response.status}): ${text}`);
+  }
+
+  return response.json();
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw === 'string' && raw.trim().length > 0) {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  }
+  return {};
+}
+
+// ─── Scripted / replay provider ───────────────────────────────────────────────
+
+export function loadScriptedFixture(fixturePath: string): ScriptedModelFixture {
+  return scriptedModelFixtureSchema.parse(JSON.parse(readFileSync(fixturePath, 'utf8')));
+}
+
+// Replays canned assistant turns in order. The turn index is the number of
+// assistant messages already in the conversation, so the script stays aligned
+// with the agent loop without any hidden state.
+export function makeScriptedProvider(fixture: ScriptedModelFixture, caseId: string): ModelProvider {
+  const script = fixture.cases[caseId] ?? fixture.default;
+
+  return {
+    id: 'scripted',
+    translateTools: passThroughTools,
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      if (!script) {
+        throw new Error(`Scripted fixture has no turns for case ${caseId} and no default script.`);
+      }
+
+      const turnIndex = request.messages.filter((message) => message.role === 'assistant').length;
+      const turn = script[turnIndex];
+      if (!turn) {
+        throw new Error(`Scripted fixture for case ${caseId} ran out of turns at turn ${turnIndex}.`);
+      }
+
+      return {
+        content: turn.content,
+        toolCalls: turn.toolCalls.map((call, index) => ({
+          id: call.id ?? `scripted-${turnIndex}-${index}`,
+          name: call.name,
+          arguments: call.arguments
+        }))
+      };
+    }
+  };
+}
+
+// ─── OpenAI-compatible provider ───────────────────────────────────────────────
+
+type OpenAiConfig = Extract<ModelProviderConfig, { type: 'openai' }>;
+
+function toOpenAiTools(tools: McpToolDefinition[]): unknown[] {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description ?? '',
+      parameters: tool.inputSchema
+    }
+  }));
+}
+
+function toOpenAiMessages(messages: ChatMessage[]): unknown[] {
+  return messages.map((message) => {
+    if (message.role === 'assistant') {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.toolCalls.length > 0
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+              }))
+            }
+          : {})
+      };
+    }
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+export function makeOpenAiProvider(config: OpenAiConfig, modelName: string): ModelProvider {
+  return {
+    id: `openai:${modelName}`,
+    translateTools: toOpenAiTools,
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const payload = (await postJson(
+        `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        { authorization: `Bearer ${readApiKey(config.apiKeyEnv)}` },
+        {
+          model: modelName,
+          temperature: config.temperature,
+          max_tokens: config.maxTokens,
+          messages: toOpenAiMessages(request.messages),
+          ...(request.tools.length > 0 ? { tools: toOpenAiTools(request.tools) } : {})
+        },
+        request.signal
+      )) as {
+        choices?: Array<{
+          message?: {
+            content?: string | null;
+            tool_calls?: Array<{ id: string; function: { name: string; arguments: unknown } }>;
+          };
+        }>;
+      };
+
+      const message = payload.choices?.[0]?.message;
+      if (!message) {
+        throw new Error('OpenAI-compatible response did not include a message.');
+      }
+
+      return {
+        content: message.content ?? '',
+        toolCalls: (message.tool_calls ?? []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseArguments(call.function.arguments)
+        }))
+      };
+    }
+  };
+}
+
+// ─── Anthropic-compatible provider ────────────────────────────────────────────
+
+type AnthropicConfig = Extract<ModelProviderConfig, { type: 'anthropic' }>;
+
+function toAnthropicTools(tools: McpToolDefinition[]): unknown[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description ?? '',
+    input_schema: tool.inputSchema
+  }));
+}
+
+// Anthropic takes the system prompt separately and expects tool results as
+// user-turn content blocks, so consecutive tool messages are folded together.
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: unknown[] } {
+  const system: string[] = [];
+  const converted: Array<{ role: 'user' | 'assistant'; content: unknown[] }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      system.push(message.content);
+    } else if (message.role === 'user') {
+      converted.push({ role: 'user', content: [{ type: 'text', text: message.content }] });
+    } else if (message.role === 'assistant') {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments
+          }))
+        ]
+      });
+    } else {
+      const block = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content,
+        is_error: message.isError
+      };
+      const previous = converted[converted.length - 1];
+      if (previous?.role === 'user' && previous.content.every((item) => (item as { type: string }).type === 'tool_result')) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+export function makeAnthropicProvider(config: AnthropicConfig, modelName: string): ModelProvider {
+  return {
+    id: `anthropic:${modelName}`,
+    translateTools: toAnthropicTools,
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const { system, messages } = toAnthropicMessages(request.messages);
+      const payload = (await postJson(
+        `${config.baseUrl.replace(/\/+$/, '')}/v1/messages`,
+        { 'x-api-key': readApiKey(config.apiKeyEnv), 'anthropic-version': '2023-06-01' },
+        {
+          model: modelName,
+          max_tokens: config.maxTokens,
+          temperature: config.temperature,
+          system,
+          messages,
+          ...(request.tools.length > 0 ? { tools: toAnthropicTools(request.tools) } : {})
+        },
+        request.signal
+      )) as {
+        content?: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }>;
+      };
+
+      if (!Array.isArray(payload.content)) {
+        throw new Error('Anthropic-compatible response did not include content blocks.');
+      }
+
+      const text: string[] = [];
+      const toolCalls: ToolCallRequest[] = [];
+      for (const block of payload.content) {
+        if (block.type === 'text' && typeof block.text === 'string') {
+          text.push(block.text);
+        } else if (block.type === 'tool_use' && block.id && block.name) {
+          toolCalls.push({ id: block.id, name: block.name, arguments: parseArguments(block.input) });
+        }
+      }
+
+      return { content: text.join('\n'), toolCalls };
+    }
+  };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+// Returns a per-case provider factory. Fixture files are read once per run.
+export function createModelProviderFactory(input: {
+  modelName: string;
+  providerConfig?: ModelProviderConfig;
+  capabilityAliases: Record<string, Capability>;
+}): (evalCase: EvalCase) => ModelProvider {
+  const { providerConfig } = input;
+
+  if (providerConfig === undefined) {
+    return (evalCase) => makeDryRunModel(evalCase, input.capabilityAliases);
+  }
+
+  if (providerConfig.type === 'scripted') {
+    const fixture = loadScriptedFixture(providerConfig.fixturePath);
+    return (evalCase) => makeScriptedProvider(fixture, evalCase.id);
+  }
+
+  const provider =
+    providerConfig.type === 'openai'
+      ? makeOpenAiProvider(providerConfig, input.modelName)
+      : makeAnthropicProvider(providerConfig, input.modelName);
+  return () => provider;
+}
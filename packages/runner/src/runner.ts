@@ -1,29 +1,45 @@
-import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { writeFileSync } from 'node:fs';
 import {
-  evalCaseSchema,
   runConfigSchema,
   type EvalCase,
-  type RunConfig,
+  type PackManifest,
+  type RunConfigInput,
   type RunTraceEvent
 } from '@mcp-agent-eval/schemas';
-import { connectMcp } from './mcpClient.js';
-import type { CaseResult, RunReport } from './types.js';
-import { getBenchmarkPackConfig } from './packs.js';
+import { raceAbort, runAgentLoop, type AgentLoopResult } from './agent.js';
+import {
+  makeDefaultGuards,
+  makeHeuristicJudge,
+  scoreEpistemic,
+  type EpistemicJudge,
+  type EpistemicResult
+} from '@mcp-agent-eval/scoring';
+import { evaluateObjectiveCheck, isMutatingCall, type CheckContext } from './checks.js';
+import { createJudgeFactory } from './judges.js';
+import { cassetteKey, createCassetteRecorder, loadCassette } from './cassette.js';
+import { withFaults } from './faults.js';
+import { evaluateStateAssertion } from './stateAssertions.js';
+import { connectMcp, type McpSession } from './mcpClient.js';
+import { mapWithConcurrency } from './pool.js';
+import { createModelProviderFactory } from './providers.js';
+import {
+  createWorkspace,
+  removeWorkspace,
+  seedWorkspace,
+  snapshotWorkspace,
+  type WorkspaceSnapshot
+} from './workspace.js';
+import { mean, meanInterval, passAtK, passHatK, proportionInterval, scoreStats } from './stats.js';
+import type { CaseResult, CheckResult, RunReport, TrialResult } from './types.js';
+import { computePackHash, resolveBenchmarkPack } from './packs.js';
+import { loadCases } from './caseLoader.js';
+import { contentHash } from './hash.js';
+import { matchesCaseFilter } from './caseFilter.js';
 
 function now(): string {
   return new Date().toISOString();
 }
 
-function loadCases(casesPath: string): EvalCase[] {
-  const files = readdirSync(casesPath).filter((file) => file.endsWith('.json'));
-  return files.map((file) => {
-    const fullPath = join(casesPath, file);
-    const parsed = JSON.parse(readFileSync(fullPath, 'utf8'));
-    return evalCaseSchema.parse(parsed);
-  });
-}
-
 function normalizeCapabilities(
   availableCapabilities: Set<string>,
   aliasMap: Record<string, string>
@@ -37,36 +53,42 @@ function normalizeCapabilities(
   return normalized;
 }
 
-function scoreCase(evalCase: EvalCase, availableCapabilities: Set<string>): CaseResult {
-  const trace: RunTraceEvent[] = [];
-  const notes: string[] = [];
-
-  const deterministicChecks = evalCase.objectiveChecks.map((check) => {
-    let passed = false;
-    let score = 0;
-    let note: string | undefined;
-
-    if (check.type === 'requires_capability') {
-      passed = availableCapabilities.has(check.value);
-      score = passed ? check.weight : 0;
-      if (!passed) {
-        note = `Missing capability: ${check.value}`;
-        notes.push(note);
-      }
-    } else if (check.type === 'requires_prompt_contains') {
-      passed = evalCase.prompt.toLowerCase().includes(check.value.toLowerCase());
-      score = passed ? check.weight : 0;
-      if (!passed) {
-        note = `Prompt missing required token: ${check.value}`;
-        notes.push(note);
-      }
-    } else if (check.type === 'requires_question') {
-      passed = evalCase.prompt.includes('?');
-      score = passed ? check.weight : 0;
-      if (!passed) {
-        note = 'Expected a clarifying question in prompt framing';
-        notes.push(note);
-      }
+async function scoreCase(
+  evalCase: EvalCase,
+  availableCapabilities: Set<string>,
+  loop: AgentLoopResult,
+  session: McpSession,
+  capabilityAliases: Record<string, string>,
+  judge: EpistemicJudge,
+  observedState: unknown,
+  thresholds: PackManifest['passThresholds'],
+  signal: AbortSignal
+): Promise<Omit<TrialResult, 'trial'>> {
+  const trace: RunTraceEvent[] = [...loop.trace];
+  const notes: string[] = [...loop.notes];
+  const checkContext: CheckContext = {
+    evalCase,
+    availableCapabilities,
+    trace: loop.trace,
+    tools: session.tools,
+    capabilityAliases
+  };
+
+  const gateFailures: string[] = [];
+
+  const evaluations = [
+    ...evalCase.objectiveChecks.map((check) => ({ check, ...evaluateObjectiveCheck(check, checkContext) })),
+    ...(evalCase.expectedState ?? []).map((check) => ({ check, ...evaluateStateAssertion(check, observedState) }))
+  ];
+
+  const checkResults: CheckResult[] = evaluations.map(({ check, passed, note }) => {
+    const score = passed ? check.weight : 0;
+    if (note !== undefined) {
+      notes.push(note);
+    }
+    if (!passed && check.required) {
+      gateFailures.push(check.id);
+      notes.push(`Required check failed: ${check.id}`);
     }
 
     const event: RunTraceEvent = {
@@ -79,78 +101,355 @@ function scoreCase(evalCase: EvalCase, availableCapabilities: Set<string>): Case
     };
     trace.push(event);
 
-    return score;
+    return {
+      checkId: check.id,
+      type: check.type,
+      passed,
+      score,
+      weight: check.weight,
+      required: check.required,
+      ...(note !== undefined ? { note } : {})
+    };
   });
 
-  const deterministicMax = evalCase.objectiveChecks.reduce((acc, check) => acc + check.weight, 0);
-  const deterministicRaw = deterministicChecks.reduce((acc, s) => acc + s, 0);
+  const deterministicMax = checkResults.reduce((acc, result) => acc + result.weight, 0);
+  const deterministicRaw = checkResults.reduce((acc, result) => acc + result.score, 0);
   const deterministicScore = deterministicMax > 0 ? deterministicRaw / deterministicMax : 0;
 
-  // PLACEHOLDER — replace with LLM judge + rule guards (packages/scoring)
-  const epistemicScore =
-    evalCase.epistemicRubric && evalCase.epistemicRubric.length > 0
-      ? evalCase.context.assumptionsAllowed
-        ? 0.8
-        : 0.7
-      : 1;
+  const guards = makeDefaultGuards({ isMutatingCall: (event) => isMutatingCall(event, session.tools) });
+  let epistemic: EpistemicResult;
+  try {
+    epistemic = await raceAbort(scoreEpistemic({ evalCase, trace: loop.trace, signal }, judge, guards), signal);
+  } catch (error) {
+    const message = signal.aborted
+      ? 'scoring timed out'
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    notes.push(`Judge ${judge.id} failed, fell back to heuristic judge: ${message}`);
+    epistemic = await scoreEpistemic({ evalCase, trace: loop.trace }, makeHeuristicJudge(), guards);
+  }
+  for (const criterion of epistemic.criteria) {
+    for (const guard of criterion.guards.filter((verdict) => verdict.triggered)) {
+      notes.push(`Guard ${guard.guardId} capped ${criterion.criterionId} at ${guard.cap}/4: ${guard.reason}`);
+    }
+  }
+  const epistemicScore = epistemic.score;
 
-  const passed = deterministicScore >= 0.8 && epistemicScore >= 0.6;
+  // Required checks are hard gates: any failure fails the case regardless of score.
+  // A timed-out case is scored on its partial trace but never passes.
+  const passed =
+    !loop.timedOut &&
+    gateFailures.length === 0 &&
+    deterministicScore >= thresholds.deterministic &&
+    epistemicScore >= thresholds.epistemic;
 
   return {
-    id: evalCase.id,
-    title: evalCase.title,
-    category: evalCase.category,
     passed,
     deterministicScore,
     epistemicScore,
+    checkResults,
+    epistemicCriteria: epistemic.criteria,
+    gateFailures,
+    timedOut: loop.timedOut,
     notes,
     trace
   };
 }
 
-export async function runSuite(input: RunConfig): Promise<RunReport> {
+// A trial that could not start: it fails with the reason as its only note.
+function failedTrial(trial: number, note: string, timedOut: boolean): TrialResult {
+  return {
+    trial,
+    passed: false,
+    deterministicScore: 0,
+    epistemicScore: 0,
+    checkResults: [],
+    epistemicCriteria: [],
+    gateFailures: [],
+    timedOut,
+    notes: [note],
+    trace: []
+  };
+}
+
+function aggregateTrials(evalCase: EvalCase, caseHash: string, trials: TrialResult[]): CaseResult {
+  const representative = trials.find((trial) => !trial.passed) ?? trials[0];
+  const { trial: representativeTrial, ...details } = representative;
+  const passCount = trials.filter((trial) => trial.passed).length;
+  const ks = trials.map((trial) => trial.trial);
+  const deterministicScores = trials.map((trial) => trial.deterministicScore);
+  const epistemicScores = trials.map((trial) => trial.epistemicScore);
+
+  return {
+    id: evalCase.id,
+    title: evalCase.title,
+    category: evalCase.category,
+    contentHash: caseHash,
+    ...details,
+    passed: passCount === trials.length,
+    deterministicScore: mean(deterministicScores),
+    epistemicScore: mean(epistemicScores),
+    representativeTrial,
+    stats: {
+      trials: trials.length,
+      passCount,
+      deterministicScore: scoreStats(deterministicScores),
+      epistemicScore: scoreStats(epistemicScores),
+      passAtK: Object.fromEntries(ks.map((k) => [String(k), passAtK(trials.length, passCount, k)])),
+      passHatK: Object.fromEntries(ks.map((k) => [String(k), passHatK(trials.length, passCount, k)]))
+    },
+    trials: trials.map(({ trial, passed, deterministicScore, epistemicScore, gateFailures, timedOut }) => ({
+      trial,
+      passed,
+      deterministicScore,
+      epistemicScore,
+      gateFailures,
+      timedOut
+    }))
+  };
+}
+
+export async function runSuite(input: RunConfigInput): Promise<RunReport> {
   const config = runConfigSchema.parse(input);
   const startedAt = now();
-  const packConfig = getBenchmarkPackConfig(config.benchmarkPack);
+  const pack = resolveBenchmarkPack(config.benchmarkPack, config.casesPath, config.packsPath);
+  const deterministicWeight = config.deterministicWeight ?? pack.defaultWeights.deterministic;
+  // A server's capability map can override how the pack aliases capabilities.
+  const capabilityAliases = { ...pack.capabilityAliases, ...config.capabilityMap?.aliases };
+  const createModel = createModelProviderFactory({
+    modelName: config.modelName,
+    providerConfig: config.modelProvider,
+    capabilityAliases
+  });
+  const createJudge = createJudgeFactory(config.judge);
 
-  const session = await connectMcp(
-    config.serverName,
-    config.dryRun,
-    config.mcpTransportConfig
+  const loaded = loadCases(config.casesPath, pack);
+  const packCases = loaded.cases.filter((evalCase) => evalCase.benchmarkPack === config.benchmarkPack);
+  // The pack hash covers every case in the pack, so filtered runs stay
+  // comparable with full runs; the filter itself is recorded in `selection`.
+  const caseHashes = Object.fromEntries(packCases.map((evalCase) => [evalCase.id, contentHash(evalCase)]));
+  const packHash = computePackHash(pack, caseHashes);
+  const caseFilter = config.caseFilter;
+  const cases = caseFilter
+    ? packCases.filter((evalCase) => matchesCaseFilter(evalCase, caseFilter))
+    : packCases;
+  if (caseFilter && cases.length === 0) {
+    throw new Error(`Case filter matched none of the ${packCases.length} cases in benchmark pack ${pack.id}`);
+  }
+  if (config.expectedPackHash !== undefined && config.expectedPackHash !== packHash) {
+    throw new Error(
+      `Benchmark pack ${pack.id}@${pack.version} hashes to ${packHash}, expected ${config.expectedPackHash}`
+    );
+  }
+  const units = cases.flatMap((evalCase) =>
+    Array.from({ length: config.trials }, (_, index) => ({ evalCase, trial: index + 1 }))
   );
 
-  const cases = loadCases(config.casesPath).filter(
-    (evalCase) => evalCase.benchmarkPack === config.benchmarkPack
-  );
+  if (config.cassette?.mode === 'replay' && config.dryRun) {
+    throw new Error('Cassette replay cannot be combined with dryRun');
+  }
+  const recorder =
+    config.cassette?.mode === 'record' ? createCassetteRecorder(config.cassette.path, config.serverName) : undefined;
+  const player =
+    config.cassette?.mode === 'replay' ? loadCassette(config.cassette.path, config.capabilityMap) : undefined;
+
+  // Live stdio servers are spawned per case run inside a fresh workspace so
+  // file and shell tools cannot clobber other cases or the host. Otherwise
+  // there is one session per worker slot so concurrent cases never share state.
+  const isolateWorkspaces = !config.dryRun && !player && config.mcpTransportConfig?.type === 'stdio';
+  const slotCount = Math.max(1, Math.min(config.concurrency, units.length));
+  const connectOptions = { connectTimeoutMs: config.timeouts.connectMs, capabilityMap: config.capabilityMap };
+  const sessions: McpSession[] = [];
+  if (!player) {
+    try {
+      for (let slot = 0; slot < (isolateWorkspaces ? 1 : slotCount); slot += 1) {
+        sessions.push(await connectMcp(config.serverName, config.dryRun, config.mcpTransportConfig, connectOptions));
+      }
+    } catch (error) {
+      await Promise.all(sessions.map((opened) => opened.close()));
+      throw error;
+    }
+  }
+  const session = player ? player.replay('discovery') : sessions[0];
+  recorder?.record('discovery', session);
+  if (isolateWorkspaces) {
+    // The first connection only discovers capabilities.
+    await session.close();
+  }
+
   const normalizedCapabilities = normalizeCapabilities(
     session.availableCapabilities,
-    packConfig.capabilityAliases
-  );
-  const caseResults = cases.map((evalCase) =>
-    scoreCase(evalCase, normalizedCapabilities)
+    capabilityAliases
   );
 
-  await session.close();
+  let trialResults: TrialResult[];
+  try {
+    trialResults = await mapWithConcurrency(units, slotCount, async ({ evalCase, trial }, _index, slot) => {
+      const setupNotes: string[] = [];
+      const key = cassetteKey(evalCase.id, trial);
+      const workspaceDir = isolateWorkspaces ? createWorkspace(evalCase.id, trial) : undefined;
+      let unitSession: McpSession | undefined;
+      try {
+        let slotSession: McpSession;
+        let caseSession: McpSession;
+        // Setup failures fail this trial only; the rest of the run carries on.
+        let connectSignal: AbortSignal | undefined;
+        try {
+          if (workspaceDir !== undefined) {
+            seedWorkspace(workspaceDir, evalCase.fixtures?.files ?? {});
+            connectSignal = AbortSignal.timeout(config.timeouts.connectMs);
+            const opened = await connectMcp(config.serverName, config.dryRun, config.mcpTransportConfig, {
+              ...connectOptions,
+              workspaceDir
+            });
+            connectSignal = undefined;
+            // Servers without their own state are checked against the workspace files.
+            unitSession = opened.readState
+              ? opened
+              : { ...opened, readState: async () => ({ files: snapshotWorkspace(workspaceDir).files }) };
+          }
+          const baseSession = player ? player.replay(key) : (unitSession ?? sessions[slot]);
+          slotSession = recorder ? recorder.record(key, baseSession) : baseSession;
+          // Faults wrap the session per trial so call counters start fresh.
+          caseSession = evalCase.faults ? withFaults(slotSession, evalCase.faults) : slotSession;
+          // State-aware servers start every trial from a clean, seeded state.
+          if (caseSession.resetState) {
+            await caseSession.resetState(evalCase.fixtures ?? { files: {}, libraries: [] });
+          } else if (evalCase.fixtures && workspaceDir === undefined) {
+            setupNotes.push(`Server ${caseSession.serverName} cannot seed fixtures; running without them`);
+          }
+        } catch (error) {
+          // A cassette missing this trial means the replay cannot be trusted at all.
+          if (player) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          return failedTrial(trial, `Case setup failed: ${message}`, connectSignal?.aborted === true);
+        }
+
+        const connected: RunTraceEvent = {
+          type: 'session_connected',
+          timestamp: now(),
+          serverName: slotSession.serverName,
+          capabilities: [...slotSession.availableCapabilities],
+          capabilityMap: Object.fromEntries(
+            slotSession.tools.flatMap((tool) => (tool.capabilityMatch ? [[tool.name, tool.capabilityMatch]] : []))
+          )
+        };
+
+        const loop = await runAgentLoop({
+          evalCase,
+          session: caseSession,
+          model: createModel(evalCase),
+          maxTurns: config.maxTurns,
+          toolCallTimeoutMs: config.timeouts.toolCallMs,
+          retryPolicy: { ...config.retry, ...evalCase.retry },
+          signal: AbortSignal.timeout(config.timeouts.caseMs)
+        });
+        if (player && player.misses.length > 0) {
+          throw new Error(
+            `Replay of ${config.cassette?.path} diverged from the recording:\n${player.misses.join('\n')}`
+          );
+        }
+        // Reading state and judging run after the agent loop, so they get their
+        // own budget of the same length instead of the spent case signal.
+        const scoringSignal = AbortSignal.timeout(config.timeouts.caseMs);
+        let observedState: unknown;
+        if (evalCase.expectedState && caseSession.readState) {
+          try {
+            observedState = await raceAbort(caseSession.readState({ signal: scoringSignal }), scoringSignal);
+          } catch (error) {
+            const message = scoringSignal.aborted
+              ? `timed out after ${config.timeouts.caseMs}ms`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+            setupNotes.push(`Could not read ${caseSession.serverName} state: ${message}`);
+          }
+        }
+
+        let workspace: WorkspaceSnapshot | undefined;
+        if (workspaceDir !== undefined) {
+          // Close first so the server has flushed its writes before the snapshot.
+          await unitSession?.close();
+          unitSession = undefined;
+          workspace = {
+            ...snapshotWorkspace(workspaceDir),
+            ...(config.keepWorkspaces ? { dir: workspaceDir } : {})
+          };
+          if (config.keepWorkspaces) {
+            setupNotes.push(`Kept workspace ${workspaceDir}`);
+          }
+        }
+
+        const result = await scoreCase(
+          evalCase,
+          normalizedCapabilities,
+          { ...loop, trace: [connected, ...loop.trace], notes: [...setupNotes, ...loop.notes] },
+          slotSession,
+          capabilityAliases,
+          createJudge(evalCase),
+          observedState,
+          pack.passThresholds,
+          scoringSignal
+        );
+        return { trial, ...result, ...(workspace ? { workspace } : {}) };
+      } finally {
+        await unitSession?.close();
+        if (workspaceDir !== undefined && !config.keepWorkspaces) {
+          removeWorkspace(workspaceDir);
+        }
+      }
+    });
+  } finally {
+    if (!isolateWorkspaces) {
+      await Promise.all(sessions.map((opened) => opened.close()));
+    }
+    recorder?.save();
+  }
+
+  const caseResults: CaseResult[] = cases.map((evalCase, index) =>
+    aggregateTrials(
+      evalCase,
+      caseHashes[evalCase.id],
+      trialResults.slice(index * config.trials, (index + 1) * config.trials)
+    )
+  );
 
   const passed = caseResults.filter((r) => r.passed).length;
   const failed = caseResults.length - passed;
 
-  const deterministicScore =
-    caseResults.length > 0
-      ? caseResults.reduce((acc, r) => acc + r.deterministicScore, 0) / caseResults.length
-      : 0;
-  const epistemicScore =
-    caseResults.length > 0
-      ? caseResults.reduce((acc, r) => acc + r.epistemicScore, 0) / caseResults.length
-      : 0;
+  const deterministicScore = mean(caseResults.map((r) => r.deterministicScore));
+  const epistemicScore = mean(caseResults.map((r) => r.epistemicScore));
   const score =
-    deterministicScore * config.deterministicWeight +
-    epistemicScore * (1 - config.deterministicWeight);
+    deterministicScore * deterministicWeight +
+    epistemicScore * (1 - deterministicWeight);
+
+  const samples = caseResults.flatMap((r) => r.trials);
+  const deterministicSamples = samples.map((sample) => sample.deterministicScore);
+  const epistemicSamples = samples.map((sample) => sample.epistemicScore);
+  const confidence = {
+    passRate: proportionInterval(samples.filter((sample) => sample.passed).length, samples.length),
+    score: meanInterval(
+      samples.map(
+        (sample) =>
+          sample.deterministicScore * deterministicWeight +
+          sample.epistemicScore * (1 - deterministicWeight)
+      )
+    ),
+    deterministicScore: meanInterval(deterministicSamples),
+    epistemicScore: meanInterval(epistemicSamples)
+  };
 
   return {
     runId: `${startedAt}_${config.suiteName}`,
     suiteName: config.suiteName,
     benchmarkPack: config.benchmarkPack,
+    packVersion: pack.version,
+    packHash,
+    invalidCases: loaded.invalid,
+    ...(caseFilter ? { selection: { filter: caseFilter, selected: cases.length, total: packCases.length } } : {}),
     server: session.serverName,
     model: config.modelName,
     startedAt,
@@ -160,7 +459,9 @@ export async function runSuite(input: RunConfig): Promise<RunReport> {
       failed,
       score,
       deterministicScore,
-      epistemicScore
+      epistemicScore,
+      trials: config.trials,
+      confidence
     },
     cases: caseResults
   };
@@ -0,0 +1,58 @@
+import type { StateAssertion } from '@mcp-agent-eval/schemas';
+
+// The parts of a state-aware server's state that assertions read; matches the
+// `mock://state` resource of packages/mock-server.
+interface ObservedState {
+  files?: Record<string, string>;
+  http?: { requests?: Array<{ method: string; path: string; body?: unknown }> };
+  serial?: { output?: string[] };
+}
+
+function normalisePath(path: string): string {
+  return path.replace(/\\/g, '/').split('/').filter((part) => part !== '' && part !== '.').join('/');
+}
+
+function bodyText(body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body ?? null);
+}
+
+export function evaluateStateAssertion(
+  assertion: StateAssertion,
+  state: unknown
+): { passed: boolean; note?: string } {
+  if (state === undefined || state === null || typeof state !== 'object') {
+    return { passed: false, note: `Cannot check ${assertion.id}: the server does not expose state` };
+  }
+  const observed = state as ObservedState;
+
+  switch (assertion.type) {
+    case 'file_exists': {
+      const passed = normalisePath(assertion.path) in (observed.files ?? {});
+      return passed ? { passed } : { passed, note: `Expected file ${assertion.path} to exist` };
+    }
+    case 'file_contains': {
+      const content = observed.files?.[normalisePath(assertion.path)];
+      if (content === undefined) {
+        return { passed: false, note: `Expected file ${assertion.path} to exist` };
+      }
+      const passed = new RegExp(assertion.pattern).test(content);
+      return passed ? { passed } : { passed, note: `Expected ${assertion.path} to match /${assertion.pattern}/` };
+    }
+    case 'http_request_received': {
+      const method = assertion.method?.toUpperCase();
+      const bodyPattern = assertion.bodyPattern !== undefined ? new RegExp(assertion.bodyPattern) : undefined;
+      const passed = (observed.http?.requests ?? []).some(
+        (request) =>
+          request.path === assertion.path &&
+          (method === undefined || request.method === method) &&
+          (bodyPattern === undefined || bodyPattern.test(bodyText(request.body)))
+      );
+      const expected = `${method ?? 'any'} ${assertion.path}${bodyPattern ? ` with body matching ${bodyPattern}` : ''}`;
+      return passed ? { passed } : { passed, note: `Expected the server to receive ${expected}` };
+    }
+    case 'serial_output_contains': {
+      const passed = new RegExp(assertion.pattern).test((observed.serial?.output ?? []).join('\n'));
+      return passed ? { passed } : { passed, note: `Expected serial output to match /${assertion.pattern}/` };
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// Two-sided 95% normal quantile.
+const Z_95 = 1.959964;
+
+export interface ScoreStats {
+  mean: number;
+  stddev: number;
+}
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : 0;
+}
+
+// Sample standard deviation; 0 for fewer than two values.
+export function stddev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, value) => acc + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+export function scoreStats(values: number[]): ScoreStats {
+  return { mean: mean(values), stddev: stddev(values) };
+}
+
+function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i += 1) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+// Unbiased estimate of P(at least one of k samples passes) from n trials with c passes.
+export function passAtK(n: number, c: number, k: number): number {
+  return 1 - binomial(n - c, k) / binomial(n, k);
+}
+
+// Unbiased estimate of P(all k samples pass) from n trials with c passes.
+export function passHatK(n: number, c: number, k: number): number {
+  return binomial(c, k) / binomial(n, k);
+}
+
+// Normal-approximation 95% interval for the mean of scores in [0, 1].
+export function meanInterval(values: number[]): Interval {
+  const avg = mean(values);
+  const margin = values.length > 0 ? (Z_95 * stddev(values)) / Math.sqrt(values.length) : 0;
+  return { lower: Math.max(0, avg - margin), upper: Math.min(1, avg + margin) };
+}
+
+// Wilson score 95% interval for a pass rate.
+export function proportionInterval(successes: number, total: number): Interval {
+  if (total === 0) return { lower: 0, upper: 0 };
+  const p = successes / total;
+  const z2 = Z_95 * Z_95;
+  const centre = (p + z2 / (2 * total)) / (1 + z2 / total);
+  const margin = (Z_95 * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total))) / (1 + z2 / total);
+  return { lower: Math.max(0, centre - margin), upper: Math.min(1, centre + margin) };
+}
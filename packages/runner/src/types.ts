@@ -1,14 +1,66 @@
-import type { EvalCase, RunTraceEvent } from '@mcp-agent-eval/schemas';
+import type { CaseFilter, EvalCase, ObjectiveCheck, RunTraceEvent, StateAssertion } from '@mcp-agent-eval/schemas';
+import type { CriterionResult } from '@mcp-agent-eval/scoring';
+import type { Interval, ScoreStats } from './stats.js';
+import type { InvalidCase } from './caseLoader.js';
+import type { WorkspaceSnapshot } from './workspace.js';
 
-export interface CaseResult {
-  id: string;
-  title: string;
-  category: EvalCase['category'];
+export interface CheckResult {
+  checkId: string;
+  type: ObjectiveCheck['type'] | StateAssertion['type'];
+  passed: boolean;
+  /** `weight` when passed, otherwise 0. */
+  score: number;
+  weight: number;
+  required: boolean;
+  note?: string;
+}
+
+/** Outcome of one run of a case; a case runs `trials` times. */
+export interface TrialResult {
+  /** 1-based trial index. */
+  trial: number;
   passed: boolean;
   deterministicScore: number;
   epistemicScore: number;
+  checkResults: CheckResult[];
+  epistemicCriteria: CriterionResult[];
+  /** Ids of failed checks marked `required`; any entry fails the trial outright. */
+  gateFailures: string[];
+  /** True when the case hit its wall-clock budget; the trial fails and is scored on the partial trace. */
+  timedOut: boolean;
   notes: string[];
   trace: RunTraceEvent[];
+  /** Files left in the case workspace; only set for live stdio servers. */
+  workspace?: WorkspaceSnapshot;
+}
+
+export interface CaseTrialStats {
+  trials: number;
+  passCount: number;
+  deterministicScore: ScoreStats;
+  epistemicScore: ScoreStats;
+  /** Estimated probability that at least one of k trials passes, keyed by k = 1..trials. */
+  passAtK: Record<string, number>;
+  /** Estimated probability that all of k trials pass, keyed by k = 1..trials. */
+  passHatK: Record<string, number>;
+}
+
+/**
+ * Scores are means across trials and `passed` requires every trial to pass.
+ * Checks, criteria, gate failures, notes and trace come from the first failing
+ * trial, or the first trial when all pass (`representativeTrial`).
+ */
+export interface CaseResult extends Omit<TrialResult, 'trial'> {
+  id: string;
+  title: string;
+  category: EvalCase['category'];
+  /** SHA-256 of the parsed case definition. */
+  contentHash: string;
+  representativeTrial: number;
+  stats: CaseTrialStats;
+  trials: Array<
+    Pick<TrialResult, 'trial' | 'passed' | 'deterministicScore' | 'epistemicScore' | 'gateFailures' | 'timedOut'>
+  >;
 }
 
 export interface RunSummary {
@@ -17,12 +69,36 @@ export interface RunSummary {
   score: number;
   deterministicScore: number;
   epistemicScore: number;
+  trials: number;
+  /** 95% intervals over every case-trial sample. */
+  confidence: {
+    passRate: Interval;
+    score: Interval;
+    deterministicScore: Interval;
+    epistemicScore: Interval;
+  };
+}
+
+export interface CaseSelection {
+  filter: CaseFilter;
+  /** Cases of the pack that matched the filter and ran. */
+  selected: number;
+  /** Cases of the pack before filtering; a run is partial when `selected` is lower. */
+  total: number;
 }
 
 export interface RunReport {
   runId: string;
   suiteName: string;
   benchmarkPack: string;
+  /** Version from the pack manifest. */
+  packVersion: string;
+  /** SHA-256 over the pack manifest and every case's `contentHash`; runs are only comparable when it matches. */
+  packHash: string;
+  /** Case files that failed to parse or validate and were left out of the run. */
+  invalidCases: InvalidCase[];
+  /** Set when the run used a case filter. */
+  selection?: CaseSelection;
   server: string;
   model: string;
   startedAt: string;
@@ -0,0 +1,66 @@
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+
+// Files larger than this are listed in snapshots without their content.
+const MAX_SNAPSHOT_FILE_BYTES = 64 * 1024;
+
+export interface WorkspaceSnapshot {
+  /** Absolute path of the workspace; only set when the workspace was kept. */
+  dir?: string;
+  /** Text content keyed by workspace-relative path with `/` separators. */
+  files: Record<string, string>;
+  /** Files left out of `files` because they are binary or too large. */
+  omitted: string[];
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, '-');
+}
+
+export function createWorkspace(caseId: string, trial: number): string {
+  return mkdtempSync(join(tmpdir(), `mcp-agent-eval-${safeSegment(caseId)}-t${trial}-`));
+}
+
+export function seedWorkspace(dir: string, files: Record<string, string>): void {
+  const root = resolve(dir);
+  for (const [path, content] of Object.entries(files)) {
+    const target = resolve(root, path);
+    if (!target.startsWith(root + sep)) {
+      throw new Error(`Fixture path ${path} escapes the case workspace`);
+    }
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content, 'utf8');
+  }
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(fullPath);
+    return entry.isFile() ? [fullPath] : [];
+  });
+}
+
+export function snapshotWorkspace(dir: string): WorkspaceSnapshot {
+  const files: Record<string, string> = {};
+  const omitted: string[] = [];
+  for (const fullPath of listFiles(dir).sort()) {
+    const path = relative(dir, fullPath).split(sep).join('/');
+    if (statSync(fullPath).size > MAX_SNAPSHOT_FILE_BYTES) {
+      omitted.push(path);
+      continue;
+    }
+    const content = readFileSync(fullPath);
+    if (content.includes(0)) {
+      omitted.push(path);
+      continue;
+    }
+    files[path] = content.toString('utf8');
+  }
+  return { files, omitted };
+}
+
+export function removeWorkspace(dir: string): void {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { evalCaseSchema, modelProviderConfigSchema, retryPolicySchema } from '@mcp-agent-eval/schemas';
+import { runAgentLoop } from '../src/agent.js';
+import type { McpSession } from '../src/mcpClient.js';
+import { makeOpenAiProvider } from '../src/providers.js';
+import { startStubServer, type StubServer } from './stubServer.js';
+
+const API_KEY_ENV = 'STUB_MODEL_API_KEY';
+
+const evalCase = evalCaseSchema.parse({
+  schemaVersion: '0.1.0',
+  id: 'agent-loop',
+  title: 'Compile a sketch',
+  category: 'deterministic',
+  difficulty: 'easy',
+  tags: ['test'],
+  prompt: 'Compile blink.ino.',
+  context: { constraints: [], assumptionsAllowed: true },
+  requiredCapabilities: ['compile'],
+  objectiveChecks: [{ id: 'compiled', type: 'tool_called', value: 'compile' }]
+});
+
+const toolCallReply = {
+  body: {
+    choices: [
+      {
+        message: {
+          content: 'Compiling.',
+          tool_calls: [{ id: 'call-1', function: { name: 'compile', arguments: '{"path":"blink.ino"}' } }]
+        }
+      }
+    ]
+  }
+};
+const finalReply = { body: { choices: [{ message: { content: 'blink.ino compiles.' } }] } };
+
+function makeSession(results: unknown[]): McpSession & { calls: Array<{ name: string; parameters: unknown }> } {
+  const calls: Array<{ name: string; parameters: unknown }> = [];
+  return {
+    serverName: 'stub',
+    availableCapabilities: new Set(['compile']),
+    tools: [{ name: 'compile', inputSchema: { type: 'object' }, capability: 'compile' }],
+    calls,
+    async callTool(name, parameters) {
+      calls.push({ name, parameters });
+      return results[Math.min(calls.length, results.length) - 1];
+    },
+    async close() {
+      // nothing to release
+    }
+  };
+}
+
+function model(baseUrl: string) {
+  const config = modelProviderConfigSchema.parse({ type: 'openai', baseUrl, apiKeyEnv: API_KEY_ENV });
+  if (config.type !== 'openai') throw new Error('expected an openai config');
+  return makeOpenAiProvider(config, 'stub-model');
+}
+
+let stub: StubServer | undefined;
+
+beforeEach(() => {
+  vi.stubEnv(API_KEY_ENV, 'test-key');
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await stub?.close();
+  stub = undefined;
+});
+
+describe('runAgentLoop', () => {
+  it('calls requested tools and feeds their results back to the model', async () => {
+    stub = await startStubServer([toolCallReply, finalReply]);
+    const session = makeSession([{ content: [{ type: 'text', text: 'Sketch uses 924 bytes.' }] }]);
+
+    const result = await runAgentLoop({
+      evalCase,
+      session,
+      model: model(stub.url),
+      maxTurns: 4,
+      toolCallTimeoutMs: 1000,
+      retryPolicy: retryPolicySchema.parse({}),
+      signal: AbortSignal.timeout(5000)
+    });
+
+    expect(session.calls).toEqual([{ name: 'compile', parameters: { path: 'blink.ino' } }]);
+    expect(result.trace.map((event) => event.type)).toEqual([
+      'turn_start',
+      'model_response',
+      'tool_call',
+      'tool_result',
+      'turn_start',
+      'model_response',
+      'session_closed'
+    ]);
+    expect(result).toMatchObject({ totalTurns: 2, timedOut: false, notes: [] });
+
+    const [first, second] = stub.requests as Array<{ body: { messages: unknown[]; tools?: unknown[] } }>;
+    expect(first.body.messages).toHaveLength(2);
+    expect(first.body.tools).toHaveLength(1);
+    expect(second.body.messages.slice(2)).toEqual([
+      {
+        role: 'assistant',
+        content: 'Compiling.',
+        tool_calls: [
+          { id: 'call-1', type: 'function', function: { name: 'compile', arguments: '{"path":"blink.ino"}' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'call-1', content: 'Sketch uses 924 bytes.' }
+    ]);
+  });
+
+  it('waits out the retry backoff before retrying a failed tool call', async () => {
+    stub = await startStubServer([toolCallReply, finalReply]);
+    const session = makeSession([
+      { isError: true, content: [{ type: 'text', text: 'port busy' }] },
+      { content: [{ type: 'text', text: 'ok' }] }
+    ]);
+
+    const result = await runAgentLoop({
+      evalCase,
+      session,
+      model: model(stub.url),
+      maxTurns: 4,
+      toolCallTimeoutMs: 1000,
+      retryPolicy: retryPolicySchema.parse({ maxAttempts: 3, backoffMs: 20, retryOn: ['tool_error'] }),
+      signal: AbortSignal.timeout(5000)
+    });
+
+    const attempts = result.trace.flatMap((event) =>
+      event.type === 'tool_result' ? [{ attempt: event.attempt, errorKind: event.errorKind }] : []
+    );
+    expect(attempts).toEqual([
+      { attempt: 1, errorKind: 'tool_error' },
+      { attempt: 2, errorKind: undefined }
+    ]);
+    expect(result.notes).toEqual(['Retried compile on turn 0: 2 attempt(s), succeeded']);
+  });
+
+  it('stops with a note when the model request fails', async () => {
+    stub = await startStubServer([{ status: 500, body: 'upstream down' }]);
+    const session = makeSession([]);
+
+    const result = await runAgentLoop({
+      evalCase,
+      session,
+      model: model(stub.url),
+      maxTurns: 4,
+      toolCallTimeoutMs: 1000,
+      retryPolicy: retryPolicySchema.parse({}),
+      signal: AbortSignal.timeout(5000)
+    });
+
+    expect(session.calls).toEqual([]);
+    expect(result.totalTurns).toBe(1);
+    expect(result.notes).toEqual([
+      'Model openai:stub-model failed on turn 0: Model request failed (500): upstream down'
+    ]);
+  });
+
+  it('reports a timeout when the case signal has already fired', async () => {
+    stub = await startStubServer([finalReply]);
+
+    const result = await runAgentLoop({
+      evalCase,
+      session: makeSession([]),
+      model: model(stub.url),
+      maxTurns: 4,
+      toolCallTimeoutMs: 1000,
+      retryPolicy: retryPolicySchema.parse({}),
+      signal: AbortSignal.abort()
+    });
+
+    expect(stub.requests).toHaveLength(0);
+    expect(result).toMatchObject({ totalTurns: 0, timedOut: true, notes: ['Case timed out after 0 turn(s)'] });
+  });
+});
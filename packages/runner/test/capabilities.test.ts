@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { capabilityMapSchema } from '@mcp-agent-eval/schemas';
+import { classifyTool } from '../src/capabilities.js';
+
+function tool(name: string, description?: string, properties: string[] = []) {
+  return {
+    name,
+    ...(description !== undefined ? { description } : {}),
+    inputSchema: { type: 'object', properties: Object.fromEntries(properties.map((key) => [key, { type: 'string' }])) }
+  };
+}
+
+describe('classifyTool', () => {
+  it('maps known names with full confidence', () => {
+    expect(classifyTool(tool('read_file'))).toEqual({
+      capability: 'file_read',
+      confidence: 1,
+      evidence: ['known tool name "read_file"']
+    });
+  });
+
+  it('lets a capability map entry or glob win over inference', () => {
+    const map = capabilityMapSchema.parse({ tools: { 'board_*': 'device_io' } });
+
+    expect(classifyTool(tool('board_upload', 'Upload firmware to the board', ['port']), map)).toMatchObject({
+      capability: 'device_io',
+      confidence: 1
+    });
+  });
+
+  it('infers a capability from several independent signals', () => {
+    expect(classifyTool(tool('arduino_compile_sketch'))).toMatchObject({
+      capability: 'compile',
+      evidence: ['name token "compile"', 'name token "sketch"']
+    });
+    expect(classifyTool(tool('upload_firmware', 'Upload firmware to the board', ['port']))).toMatchObject({
+      capability: 'upload'
+    });
+  });
+
+  it.each([
+    ['get_weather', 'file_read'],
+    ['create_issue', 'file_write'],
+    ['add_comment', 'dependency_install'],
+    ['send_email', 'serial_write'],
+    ['check_status', 'test'],
+    ['start_timer', 'run']
+  ])('leaves %s unmapped instead of guessing %s from one generic name token', (name) => {
+    expect(classifyTool(tool(name))).toBeUndefined();
+  });
+
+  it.each([
+    ['get_weather', 'Get the current weather for a city', ['city', 'units']],
+    ['create_issue', 'Create an issue in a repository', ['title', 'repo']],
+    ['add_comment', 'Add a comment to an issue', ['issue', 'comment']],
+    ['send_email', 'Send an email to a recipient', ['to', 'subject']],
+    ['check_status', 'Check the status of an order', ['orderId']],
+    ['start_timer', 'Start a countdown timer', ['seconds']]
+  ])('does not count a description that repeats the name token as a second signal (%s)', (name, description, props) => {
+    expect(classifyTool(tool(name, description, props))).toBeUndefined();
+  });
+
+  it('leaves tools unmapped when description and properties are the only signals', () => {
+    expect(classifyTool(tool('lookup', 'Fetch a url over http', ['url', 'method']))).toBeUndefined();
+  });
+
+  it('leaves tools unmapped when the top two capabilities tie', () => {
+    expect(classifyTool(tool('arduino_build_sketch'))).toBeUndefined();
+  });
+});
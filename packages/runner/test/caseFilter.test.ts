@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { caseFilterSchema, evalCaseSchema, type CaseFilterInput } from '@mcp-agent-eval/schemas';
+import { matchesCaseFilter } from '../src/caseFilter.js';
+
+function evalCase(id: string, category: string, difficulty: string, tags: string[]) {
+  return evalCaseSchema.parse({
+    schemaVersion: '0.1.0',
+    id,
+    title: id,
+    category,
+    difficulty,
+    tags,
+    prompt: 'Do the task.',
+    context: { constraints: [], assumptionsAllowed: true },
+    requiredCapabilities: ['file_read'],
+    objectiveChecks: [{ id: 'called', type: 'tool_called', value: 'file_read' }]
+  });
+}
+
+const cases = [
+  evalCase('101-letter', 'deterministic', 'easy', ['api', 'letters']),
+  evalCase('102-calendar', 'deterministic', 'medium', ['api', 'retry']),
+  evalCase('103-timezone', 'epistemic', 'hard', ['clarification']),
+  evalCase('201-fan', 'safety', 'medium', ['hardware'])
+];
+
+function selected(filter: CaseFilterInput): string[] {
+  const parsed = caseFilterSchema.parse(filter);
+  return cases.filter((item) => matchesCaseFilter(item, parsed)).map((item) => item.id);
+}
+
+describe('matchesCaseFilter', () => {
+  it('selects every case with an empty filter', () => {
+    expect(selected({})).toHaveLength(cases.length);
+  });
+
+  it('requires every include field to match, and any listed value within a field', () => {
+    expect(selected({ include: { tags: ['letters', 'retry'] } })).toEqual(['101-letter', '102-calendar']);
+    expect(selected({ include: { tags: ['api'], difficulties: ['medium'] } })).toEqual(['102-calendar']);
+    expect(selected({ include: { categories: ['epistemic', 'safety'], difficulties: ['hard'] } })).toEqual([
+      '103-timezone'
+    ]);
+  });
+
+  it('matches ids as whole-string globs', () => {
+    expect(selected({ include: { ids: ['10?-*'] } })).toEqual(['101-letter', '102-calendar', '103-timezone']);
+    expect(selected({ include: { ids: ['101'] } })).toEqual([]);
+  });
+
+  it('drops cases that match any single exclude field', () => {
+    expect(selected({ exclude: { tags: ['retry'], categories: ['safety'] } })).toEqual(['101-letter', '103-timezone']);
+  });
+
+  it('applies exclude after include', () => {
+    expect(selected({ include: { tags: ['api'] }, exclude: { ids: ['102-*'] } })).toEqual(['101-letter']);
+  });
+});
@@ -0,0 +1,89 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { stringify as toYaml } from 'yaml';
+import { packManifestSchema } from '@mcp-agent-eval/schemas';
+import { loadCases } from '../src/caseLoader.js';
+
+const baseCase = {
+  schemaVersion: '0.1.0',
+  title: 'Blink',
+  category: 'deterministic',
+  difficulty: 'easy',
+  tags: ['test'],
+  prompt: 'Blink the LED.',
+  context: { constraints: [], assumptionsAllowed: true },
+  requiredCapabilities: ['compile'],
+  objectiveChecks: [{ id: 'compiled', type: 'tool_called', value: 'compile' }]
+};
+
+const arduinoPack = packManifestSchema.parse({ id: 'arduino', version: '1.0.0', boardFormat: 'fqbn' });
+
+let dir: string;
+
+function boardCase(id: string, board: string, benchmarkPack?: string) {
+  return { ...baseCase, id, ...(benchmarkPack ? { benchmarkPack } : {}), context: { ...baseCase.context, board } };
+}
+
+function writeCase(file: string, content: unknown): void {
+  const path = join(dir, file);
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'case-loader-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadCases', () => {
+  it('loads JSON and YAML cases from nested folders and skips nested packs', () => {
+    writeCase('101.json', { ...baseCase, id: '101' });
+    writeCase('nested/102.yaml', toYaml({ ...baseCase, id: '102' }));
+    writeCase('other/pack.json', { id: 'other', version: '1.0.0' });
+    writeCase('other/201.json', { ...baseCase, id: '201' });
+
+    const loaded = loadCases(dir);
+
+    expect(loaded.cases.map((item) => item.id)).toEqual(['101', '102']);
+    expect(loaded.invalid).toEqual([]);
+  });
+
+  it('reports unparseable, invalid and duplicate cases without stopping the load', () => {
+    writeCase('101.json', { ...baseCase, id: '101' });
+    writeCase('102.json', '{ "id": ');
+    writeCase('103.json', { ...baseCase, id: '103', fixtures: { files: { '../escape.txt': 'x' } } });
+    writeCase('104.json', { ...baseCase, id: '101' });
+
+    const loaded = loadCases(dir);
+
+    expect(loaded.cases.map((item) => item.id)).toEqual(['101']);
+    expect(loaded.invalid.map((item) => [item.file, item.issues[0].path])).toEqual([
+      ['102.json', ''],
+      ['103.json', 'fixtures.files.../escape.txt'],
+      ['104.json', 'id']
+    ]);
+    expect(loaded.invalid[2].issues[0].message).toBe('Duplicate case id 101, first defined in 101.json');
+  });
+
+  it("checks boards against the pack's board format for that pack's cases only", () => {
+    writeCase('101.json', boardCase('101', 'uno', 'arduino'));
+    writeCase('102.json', boardCase('102', 'arduino:avr:uno', 'arduino'));
+    writeCase('103.json', boardCase('103', 'uno'));
+
+    const loaded = loadCases(dir, arduinoPack);
+
+    expect(loaded.cases.map((item) => item.id)).toEqual(['102', '103']);
+    expect(loaded.invalid).toEqual([
+      {
+        file: '101.json',
+        issues: [{ path: 'context.board', message: 'board must be an FQBN such as arduino:avr:uno, got "uno"' }]
+      }
+    ]);
+    expect(loadCases(dir).invalid).toEqual([]);
+  });
+});
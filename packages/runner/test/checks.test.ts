@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import { evalCaseSchema, objectiveCheckSchema, type RunTraceEvent } from '@mcp-agent-eval/schemas';
+import { evaluateObjectiveCheck, type CheckContext } from '../src/checks.js';
+import type { McpToolDefinition } from '../src/mcpClient.js';
+
+const TIMESTAMP = '2026-01-01T00:00:00.000Z';
+
+const evalCase = evalCaseSchema.parse({
+  schemaVersion: '0.1.0',
+  id: 'checked-case',
+  title: 'Blink an LED',
+  category: 'deterministic',
+  difficulty: 'easy',
+  tags: ['test'],
+  prompt: 'Make the LED on my board blink.',
+  context: { board: 'arduino:avr:uno', constraints: [], assumptionsAllowed: false },
+  requiredCapabilities: ['file_write'],
+  objectiveChecks: [{ id: 'asked', type: 'asks_question', value: 'pin' }]
+});
+
+const tools: McpToolDefinition[] = [
+  { name: 'read_file', inputSchema: { type: 'object' }, capability: 'file_read' },
+  { name: 'write_file', inputSchema: { type: 'object' }, capability: 'file_write' },
+  { name: 'compile_sketch', inputSchema: { type: 'object' }, capability: 'compile' },
+  { name: 'upload_sketch', inputSchema: { type: 'object' }, capability: 'upload' }
+];
+
+function context(trace: RunTraceEvent[], overrides: Partial<CheckContext> = {}): CheckContext {
+  return {
+    evalCase,
+    availableCapabilities: new Set(['file_read', 'file_write', 'compile']),
+    trace,
+    tools,
+    capabilityAliases: { compile: 'build' },
+    ...overrides
+  };
+}
+
+function response(content: string, turn: number, finishReason: 'stop' | 'tool_use' = 'stop'): RunTraceEvent {
+  return { type: 'model_response', timestamp: TIMESTAMP, turn, content, finishReason };
+}
+
+function call(toolName: string, turn: number, parameters: Record<string, unknown> = {}): RunTraceEvent {
+  return { type: 'tool_call', timestamp: TIMESTAMP, turn, toolName, parameters };
+}
+
+function result(toolName: string, turn: number, errorMessage?: string): RunTraceEvent {
+  return { type: 'tool_result', timestamp: TIMESTAMP, turn, toolName, result: {}, errorMessage };
+}
+
+function check(raw: Record<string, unknown>) {
+  return objectiveCheckSchema.parse({ id: 'check', ...raw });
+}
+
+describe('case-only checks', () => {
+  it('requires_capability looks at the server capabilities', () => {
+    expect(evaluateObjectiveCheck(check({ type: 'requires_capability', value: 'compile' }), context([]))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'requires_capability', value: 'upload' }), context([]))).toEqual({
+      passed: false,
+      note: 'Missing capability: upload'
+    });
+  });
+
+  it('requires_prompt_contains ignores case', () => {
+    expect(evaluateObjectiveCheck(check({ type: 'requires_prompt_contains', value: 'led' }), context([]))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'requires_prompt_contains', value: 'servo' }), context([]))).toEqual({
+      passed: false,
+      note: 'Prompt missing required token: servo'
+    });
+  });
+
+  it('requires_question wants a question mark in the prompt', () => {
+    const asking = { ...evalCase, prompt: 'Which pin is the LED on?' };
+
+    expect(evaluateObjectiveCheck(check({ type: 'requires_question', value: 'x' }), context([]))).toEqual({
+      passed: false,
+      note: 'Expected a clarifying question in prompt framing'
+    });
+    expect(
+      evaluateObjectiveCheck(check({ type: 'requires_question', value: 'x' }), context([], { evalCase: asking }))
+    ).toEqual({ passed: true });
+  });
+});
+
+describe('tool checks', () => {
+  const trace = [
+    call('read_file', 0, { path: 'blink.ino' }),
+    result('read_file', 0),
+    call('compile_sketch', 1, { fqbn: 'arduino:avr:uno' }),
+    result('compile_sketch', 1, 'exit status 1')
+  ];
+
+  it('tool_called matches a tool name, its capability or the pack alias of that capability', () => {
+    for (const value of ['compile_sketch', 'compile', 'build']) {
+      expect(evaluateObjectiveCheck(check({ type: 'tool_called', value }), context(trace))).toEqual({ passed: true });
+    }
+    expect(evaluateObjectiveCheck(check({ type: 'tool_called', value: 'upload' }), context(trace))).toEqual({
+      passed: false,
+      note: 'Expected a call to upload'
+    });
+  });
+
+  it('tool_succeeded ignores results that carry an error', () => {
+    expect(evaluateObjectiveCheck(check({ type: 'tool_succeeded', value: 'file_read' }), context(trace))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'tool_succeeded', value: 'compile' }), context(trace))).toEqual({
+      passed: false,
+      note: 'Expected a successful call to compile'
+    });
+  });
+
+  it('tool_not_called counts offending calls', () => {
+    expect(evaluateObjectiveCheck(check({ type: 'tool_not_called', value: 'upload' }), context(trace))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'tool_not_called', value: 'file_read' }), context(trace))).toEqual({
+      passed: false,
+      note: 'Unexpected call to file_read (1 time(s))'
+    });
+  });
+
+  it('tool_called_with tests the pattern against the JSON-encoded arguments', () => {
+    const matching = check({ type: 'tool_called_with', value: 'file_read', pattern: '"path":"blink\\.ino"' });
+    const other = check({ type: 'tool_called_with', value: 'file_read', pattern: 'servo' });
+
+    expect(evaluateObjectiveCheck(matching, context(trace))).toEqual({ passed: true });
+    expect(evaluateObjectiveCheck(other, context(trace))).toEqual({
+      passed: false,
+      note: 'Expected a call to file_read with arguments matching /servo/'
+    });
+  });
+
+  it('tool_order accepts the steps as an in-order subsequence of the calls', () => {
+    expect(evaluateObjectiveCheck(check({ type: 'tool_order', value: 'file_read > build' }), context(trace))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'tool_order', value: 'compile > file_read' }), context(trace))).toEqual(
+      { passed: false, note: 'Expected tool order compile > file_read; stopped before file_read' }
+    );
+  });
+});
+
+describe('board checks', () => {
+  it('valid_fqbn wants every board argument to be a well-formed FQBN', () => {
+    const valid = [call('compile_sketch', 0, { fqbn: 'esp32:esp32:esp32:PartitionScheme=huge_app' })];
+    const malformed = [...valid, call('compile_sketch', 1, { board: 'uno' })];
+
+    expect(evaluateObjectiveCheck(check({ type: 'valid_fqbn', value: 'compile' }), context(valid))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'valid_fqbn', value: 'compile' }), context(malformed))).toEqual({
+      passed: false,
+      note: 'Malformed FQBN passed to compile: uno'
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'valid_fqbn', value: 'compile' }), context([]))).toEqual({
+      passed: false,
+      note: 'Expected a call to compile with an fqbn or board argument'
+    });
+  });
+
+  it('uses_case_board compares against context.board and ignores board options', () => {
+    const withOptions = [call('upload_sketch', 0, { fqbn: 'arduino:avr:uno:cpu=atmega328' })];
+    const otherBoard = [call('upload_sketch', 0, { fqbn: 'arduino:avr:nano' })];
+
+    expect(evaluateObjectiveCheck(check({ type: 'uses_case_board', value: 'upload' }), context(withOptions))).toEqual({
+      passed: true
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'uses_case_board', value: 'upload' }), context(otherBoard))).toEqual({
+      passed: false,
+      note: 'Calls to upload targeted arduino:avr:nano, not arduino:avr:uno'
+    });
+  });
+});
+
+describe('asks_question', () => {
+  const asksPin = check({ type: 'asks_question', value: 'pin' });
+
+  it('passes when a reply asks about the topic and waits for the answer', () => {
+    const trace = [response('Which pin is the LED on?', 0), call('write_file', 1, { path: 'blink.ino' })];
+
+    expect(evaluateObjectiveCheck(asksPin, context(trace))).toEqual({ passed: true });
+  });
+
+  it('fails when the question comes after a mutating call', () => {
+    const trace = [call('write_file', 0), response('Which pin is the LED on?', 1)];
+
+    expect(evaluateObjectiveCheck(asksPin, context(trace))).toEqual({
+      passed: false,
+      note: 'Mutating call to write_file before asking about pin'
+    });
+  });
+
+  it('does not count a question sent in the same turn as a mutating call', () => {
+    const trace = [response('Which pin is the LED on? Writing pin 13 for now.', 0, 'tool_use'), call('write_file', 0)];
+
+    expect(evaluateObjectiveCheck(asksPin, context(trace))).toEqual({
+      passed: false,
+      note: 'Mutating call to write_file before asking about pin'
+    });
+  });
+
+  it('does not count a question sent alongside a read-only call', () => {
+    const trace = [response('Which pin is the LED on?', 0, 'tool_use'), call('read_file', 0)];
+
+    expect(evaluateObjectiveCheck(asksPin, context(trace))).toEqual({
+      passed: false,
+      note: 'Expected a clarifying question about pin'
+    });
+  });
+});
+
+describe('final answer checks', () => {
+  const answerSchema = {
+    type: 'object',
+    required: ['pin'],
+    properties: { pin: { type: 'integer' } }
+  };
+
+  it('final_answer_matches tests the last stop response', () => {
+    const trace = [response('Blinking pin 13.', 0, 'tool_use'), response('Done: LED on pin 12 blinks.', 1)];
+
+    expect(evaluateObjectiveCheck(check({ type: 'final_answer_matches', value: 'pin 1[23]' }), context(trace))).toEqual(
+      { passed: true }
+    );
+    expect(evaluateObjectiveCheck(check({ type: 'final_answer_matches', value: 'pin 13' }), context(trace))).toEqual({
+      passed: false,
+      note: 'Final answer does not match /pin 13/'
+    });
+    expect(evaluateObjectiveCheck(check({ type: 'final_answer_matches', value: 'pin' }), context([]))).toEqual({
+      passed: false,
+      note: 'No final answer in trace'
+    });
+  });
+
+  it('final_answer_schema accepts a bare or fenced JSON answer that fits the schema', () => {
+    const schemaCheck = check({ type: 'final_answer_schema', value: 'answer', schema: answerSchema });
+
+    expect(evaluateObjectiveCheck(schemaCheck, context([response('{"pin": 13}', 0)]))).toEqual({ passed: true });
+    expect(
+      evaluateObjectiveCheck(schemaCheck, context([response('Here it is:\n```json\n{"pin": 13}\n```', 0)]))
+    ).toEqual({ passed: true });
+  });
+
+  it('final_answer_schema reports unparseable answers and schema violations', () => {
+    const schemaCheck = check({ type: 'final_answer_schema', value: 'answer', schema: answerSchema });
+
+    expect(evaluateObjectiveCheck(schemaCheck, context([response('pin 13', 0)]))).toEqual({
+      passed: false,
+      note: 'Final answer is not valid JSON'
+    });
+    expect(evaluateObjectiveCheck(schemaCheck, context([response('{"pin": "13"}', 0)]))).toEqual({
+      passed: false,
+      note: 'Final answer violates schema: data/pin must be integer'
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { evalCaseSchema, judgeConfigSchema, type RunTraceEvent } from '@mcp-agent-eval/schemas';
+import { createJudgeFactory } from '../src/judges.js';
+import { startStubServer, type StubServer } from './stubServer.js';
+
+const API_KEY_ENV = 'STUB_JUDGE_API_KEY';
+
+const evalCase = evalCaseSchema.parse({
+  schemaVersion: '0.1.0',
+  id: 'judged-case',
+  title: 'Confirm the port',
+  category: 'epistemic',
+  difficulty: 'easy',
+  tags: ['test'],
+  prompt: 'Upload the sketch.',
+  context: { constraints: [], assumptionsAllowed: false },
+  requiredCapabilities: ['upload'],
+  objectiveChecks: [{ id: 'asked', type: 'asks_question', value: 'port' }],
+  epistemicRubric: [{ id: 'asks-port', label: 'clarification', description: 'Asks which serial port to use' }]
+});
+
+const trace: RunTraceEvent[] = [
+  {
+    type: 'model_response',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    turn: 0,
+    content: 'Which serial port is the board on?',
+    finishReason: 'stop'
+  }
+];
+
+function judgeFor(baseUrl: string) {
+  const config = judgeConfigSchema.parse({
+    type: 'model',
+    modelName: 'stub-judge',
+    provider: { type: 'openai', baseUrl, apiKeyEnv: API_KEY_ENV }
+  });
+  return createJudgeFactory(config)(evalCase);
+}
+
+let stub: StubServer | undefined;
+
+beforeEach(() => {
+  vi.stubEnv(API_KEY_ENV, 'judge-key');
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await stub?.close();
+  stub = undefined;
+});
+
+describe('createJudgeFactory with a model judge', () => {
+  it('sends the grading prompt as a tool-less chat and parses the verdict', async () => {
+    const reply = { criteria: [{ id: 'asks-port', score: 4, rationale: 'Asked for the port.' }] };
+    stub = await startStubServer([{ body: { choices: [{ message: { content: JSON.stringify(reply) } }] } }]);
+
+    const judge = judgeFor(stub.url);
+    const verdicts = await judge.judge({ evalCase, trace });
+
+    expect(judge.id).toBe('model:openai:stub-judge');
+    expect(verdicts).toEqual([{ criterionId: 'asks-port', score: 4, rationale: 'Asked for the port.' }]);
+    const [request] = stub.requests as Array<{
+      body: { model: string; messages: Array<{ role: string; content: string }> };
+    }>;
+    expect(request.body.model).toBe('stub-judge');
+    expect(request.body).not.toHaveProperty('tools');
+    expect(request.body.messages.map((message) => message.role)).toEqual(['system', 'user']);
+    expect(request.body.messages[1].content).toContain('- asks-port (clarification): Asks which serial port to use');
+    expect(request.body.messages[1].content).toContain('Which serial port is the board on?');
+  });
+
+  it('fails on a malformed reply so the runner can fall back to the heuristic judge', async () => {
+    stub = await startStubServer([{ body: { choices: [{ message: { content: '{"criteria": [' } }] } }]);
+
+    await expect(judgeFor(stub.url).judge({ evalCase, trace })).rejects.toThrow();
+  });
+
+  it('surfaces HTTP errors from the judge endpoint', async () => {
+    stub = await startStubServer([{ status: 503, body: 'overloaded' }]);
+
+    await expect(judgeFor(stub.url).judge({ evalCase, trace })).rejects.toThrow(
+      'Model request failed (503): overloaded'
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { modelProviderConfigSchema } from '@mcp-agent-eval/schemas';
+import type { McpToolDefinition } from '../src/mcpClient.js';
+import type { ChatMessage } from '../src/model.js';
+import { makeAnthropicProvider, makeOpenAiProvider } from '../src/providers.js';
+import { startStubServer, type StubServer } from './stubServer.js';
+
+const API_KEY_ENV = 'STUB_MODEL_API_KEY';
+
+const tools: McpToolDefinition[] = [
+  {
+    name: 'compile',
+    description: 'Compile a sketch',
+    inputSchema: { type: 'object', properties: { path: { type: 'string' } } }
+  }
+];
+
+// A conversation that has been through one tool round with two calls.
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'Be careful.' },
+  { role: 'user', content: 'Compile both sketches.' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [
+      { id: 'call-1', name: 'compile', arguments: { path: 'a.ino' } },
+      { id: 'call-2', name: 'compile', arguments: { path: 'b.ino' } }
+    ]
+  },
+  { role: 'tool', toolCallId: 'call-1', toolName: 'compile', content: 'ok', isError: false },
+  { role: 'tool', toolCallId: 'call-2', toolName: 'compile', content: 'error: expected ;', isError: true }
+];
+
+let stub: StubServer | undefined;
+
+beforeEach(() => {
+  vi.stubEnv(API_KEY_ENV, 'test-key');
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await stub?.close();
+  stub = undefined;
+});
+
+function openAiProvider(baseUrl: string) {
+  const config = modelProviderConfigSchema.parse({ type: 'openai', baseUrl, apiKeyEnv: API_KEY_ENV, maxTokens: 256 });
+  if (config.type !== 'openai') throw new Error('expected an openai config');
+  return makeOpenAiProvider(config, 'stub-model');
+}
+
+function anthropicProvider(baseUrl: string) {
+  const config = modelProviderConfigSchema.parse({ type: 'anthropic', baseUrl, apiKeyEnv: API_KEY_ENV });
+  if (config.type !== 'anthropic') throw new Error('expected an anthropic config');
+  return makeAnthropicProvider(config, 'stub-model');
+}
+
+describe('makeOpenAiProvider', () => {
+  it('posts chat completions with translated messages and tools', async () => {
+    stub = await startStubServer([{ body: { choices: [{ message: { content: 'Both compiled.' } }] } }]);
+    const response = await openAiProvider(`${stub.url}/v1/`).chat({ messages, tools });
+
+    expect(response).toEqual({ content: 'Both compiled.', toolCalls: [] });
+    const [request] = stub.requests;
+    expect(request.method).toBe('POST');
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.body).toEqual({
+      model: 'stub-model',
+      temperature: 0,
+      max_tokens: 256,
+      messages: [
+        { role: 'system', content: 'Be careful.' },
+        { role: 'user', content: 'Compile both sketches.' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call-1', type: 'function', function: { name: 'compile', arguments: '{"path":"a.ino"}' } },
+            { id: 'call-2', type: 'function', function: { name: 'compile', arguments: '{"path":"b.ino"}' } }
+          ]
+        },
+        { role: 'tool', tool_call_id: 'call-1', content: 'ok' },
+        { role: 'tool', tool_call_id: 'call-2', content: 'error: expected ;' }
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: { name: 'compile', description: 'Compile a sketch', parameters: tools[0].inputSchema }
+        }
+      ]
+    });
+  });
+
+  it('parses tool calls whose arguments arrive as JSON strings', async () => {
+    stub = await startStubServer([
+      {
+        body: {
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [{ id: 'call-9', function: { name: 'compile', arguments: '{"path":"blink.ino"}' } }]
+              }
+            }
+          ]
+        }
+      }
+    ]);
+    const response = await openAiProvider(stub.url).chat({ messages: messages.slice(0, 2), tools: [] });
+
+    expect(response).toEqual({
+      content: '',
+      toolCalls: [{ id: 'call-9', name: 'compile', arguments: { path: 'blink.ino' } }]
+    });
+    expect(stub.requests[0].body).not.toHaveProperty('tools');
+  });
+
+  it('reports HTTP errors with the status and body', async () => {
+    stub = await startStubServer([{ status: 429, body: { error: 'rate limited' } }]);
+    await expect(openAiProvider(stub.url).chat({ messages, tools })).rejects.toThrow(
+      'Model request failed (429): {"error":"rate limited"}'
+    );
+  });
+
+  it('rejects responses without a message', async () => {
+    stub = await startStubServer([{ body: { choices: [] } }]);
+    await expect(openAiProvider(stub.url).chat({ messages, tools })).rejects.toThrow(
+      'OpenAI-compatible response did not include a message.'
+    );
+  });
+
+  it('requires the API key environment variable', async () => {
+    vi.stubEnv(API_KEY_ENV, '');
+    stub = await startStubServer([{ body: {} }]);
+    await expect(openAiProvider(stub.url).chat({ messages, tools })).rejects.toThrow(API_KEY_ENV);
+    expect(stub.requests).toHaveLength(0);
+  });
+});
+
+describe('makeAnthropicProvider', () => {
+  it('posts messages with a separate system prompt and folded tool results', async () => {
+    stub = await startStubServer([{ body: { content: [{ type: 'text', text: 'Both compiled.' }] } }]);
+    const response = await anthropicProvider(stub.url).chat({ messages, tools });
+
+    expect(response).toEqual({ content: 'Both compiled.', toolCalls: [] });
+    const [request] = stub.requests;
+    expect(request.path).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('test-key');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.body).toEqual({
+      model: 'stub-model',
+      max_tokens: 1024,
+      temperature: 0,
+      system: 'Be careful.',
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Compile both sketches.' }] },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'call-1', name: 'compile', input: { path: 'a.ino' } },
+            { type: 'tool_use', id: 'call-2', name: 'compile', input: { path: 'b.ino' } }
+          ]
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'call-1', content: 'ok', is_error: false },
+            { type: 'tool_result', tool_use_id: 'call-2', content: 'error: expected ;', is_error: true }
+          ]
+        }
+      ],
+      tools: [{ name: 'compile', description: 'Compile a sketch', input_schema: tools[0].inputSchema }]
+    });
+  });
+
+  it('joins text blocks and collects tool_use blocks', async () => {
+    stub = await startStubServer([
+      {
+        body: {
+          content: [
+            { type: 'text', text: 'Compiling now.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'compile', input: { path: 'blink.ino' } },
+            { type: 'text', text: 'Then I will report back.' }
+          ]
+        }
+      }
+    ]);
+    const response = await anthropicProvider(stub.url).chat({ messages: messages.slice(0, 2), tools });
+
+    expect(response).toEqual({
+      content: 'Compiling now.\nThen I will report back.',
+      toolCalls: [{ id: 'toolu_1', name: 'compile', arguments: { path: 'blink.ino' } }]
+    });
+  });
+
+  it('rejects responses without content blocks', async () => {
+    stub = await startStubServer([{ body: { type: 'error' } }]);
+    await expect(anthropicProvider(stub.url).chat({ messages, tools })).rejects.toThrow(
+      'Anthropic-compatible response did not include content blocks.'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { meanInterval, passAtK, passHatK, proportionInterval, scoreStats } from '../src/stats.js';
+
+describe('passAtK', () => {
+  it('equals the pass rate for k = 1', () => {
+    expect(passAtK(5, 2, 1)).toBeCloseTo(0.4);
+  });
+
+  it('estimates the chance that at least one of k samples passes', () => {
+    // 1 - C(3, 2) / C(5, 2)
+    expect(passAtK(5, 2, 2)).toBeCloseTo(0.7);
+  });
+
+  it('is 1 once k exceeds the number of failures, and 0 without passes', () => {
+    expect(passAtK(5, 3, 3)).toBe(1);
+    expect(passAtK(5, 0, 3)).toBe(0);
+  });
+});
+
+describe('passHatK', () => {
+  it('estimates the chance that all k samples pass', () => {
+    // C(2, 2) / C(5, 2)
+    expect(passHatK(5, 2, 2)).toBeCloseTo(0.1);
+    expect(passHatK(5, 2, 1)).toBeCloseTo(0.4);
+  });
+
+  it('is 0 when fewer than k trials passed and 1 when every trial did', () => {
+    expect(passHatK(5, 2, 3)).toBe(0);
+    expect(passHatK(4, 4, 3)).toBe(1);
+  });
+});
+
+describe('score statistics', () => {
+  it('uses the sample standard deviation', () => {
+    expect(scoreStats([0.5, 1])).toEqual({ mean: 0.75, stddev: expect.closeTo(Math.SQRT1_2 / 2, 10) });
+    expect(scoreStats([0.8])).toEqual({ mean: 0.8, stddev: 0 });
+  });
+
+  it('clamps intervals to [0, 1]', () => {
+    const interval = meanInterval([0, 1]);
+    expect(interval.lower).toBe(0);
+    expect(interval.upper).toBe(1);
+    expect(meanInterval([0.6, 0.6])).toEqual({ lower: 0.6, upper: 0.6 });
+  });
+
+  it('gives a Wilson interval that stays inside [0, 1] at the extremes', () => {
+    const allPassed = proportionInterval(3, 3);
+    expect(allPassed.upper).toBe(1);
+    expect(allPassed.lower).toBeGreaterThan(0.4);
+    expect(allPassed.lower).toBeLessThan(0.5);
+    expect(proportionInterval(0, 0)).toEqual({ lower: 0, upper: 0 });
+  });
+});
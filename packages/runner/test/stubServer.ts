@@ -0,0 +1,51 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+export interface StubReply {
+  status?: number;
+  body: unknown;
+}
+
+export interface StubServer {
+  /** Base URL without a trailing slash, e.g. `http://127.0.0.1:53211`. */
+  url: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+// Local HTTP server standing in for a model API. Every request is recorded,
+// and `replies` are served in order, the last one repeating once they run out.
+export async function startStubServer(replies: StubReply[]): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      requests.push({
+        method: req.method ?? '',
+        path: req.url ?? '',
+        headers: req.headers,
+        body: text ? JSON.parse(text) : undefined
+      });
+      const reply = replies[Math.min(requests.length, replies.length) - 1];
+      res.writeHead(reply.status ?? 200, { 'content-type': 'application/json' });
+      res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  };
+}
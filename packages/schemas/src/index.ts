@@ -1,6 +1,10 @@
+import { Ajv } from 'ajv';
 import { z } from 'zod';
 
-export const benchmarkPackSchema = z.enum(['general']);
+// Pack ids name a directory-level `pack.json` manifest, so they stay path-safe.
+export const benchmarkPackSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]*$/, 'pack ids use lowercase letters, digits, "-" and "_"');
 
 export const capabilitySchema = z.enum([
   'file_read',
@@ -20,14 +24,119 @@ export const capabilitySchema = z.enum([
   'dependency_install'
 ]);
 
-export const objectiveCheckSchema = z.object({
-  id: z.string().min(1),
-  type: z.enum(['requires_capability', 'requires_prompt_contains', 'requires_question']),
-  value: z.string().min(1),
-  required: z.boolean().default(true),
-  weight: z.number().min(0).max(1).default(0.2)
+// How a listed MCP tool was mapped to a capability; `confidence` is 1 for known
+// tool names and lower for mappings inferred from name tokens, description and
+// input schema.
+export const capabilityMatchSchema = z.object({
+  capability: capabilitySchema,
+  confidence: z.number().min(0).max(1),
+  evidence: z.array(z.string())
+});
+
+// Fully qualified board name, `vendor:architecture:board` with optional
+// `menu=option` pairs, e.g. `arduino:avr:uno` or `esp32:esp32:esp32:PartitionScheme=huge_app`.
+export const FQBN_PATTERN = /^[\w.-]+:[\w.-]+:[\w.-]+(?::[\w.-]+=[\w.-]+(?:,[\w.-]+=[\w.-]+)*)?$/;
+
+// Formats a pack can require for `context.board`, described for error messages.
+export const BOARD_FORMATS = {
+  fqbn: { pattern: FQBN_PATTERN, description: 'an FQBN such as arduino:avr:uno' }
+} as const;
+
+export const boardFormatSchema = z.enum(['fqbn']);
+
+// User-supplied capability mapping for one server. `tools` keys are exact tool
+// names or globs (`*`, `?`) and win over every built-in mapping; `argumentHints`
+// lists input property names that mark a tool as providing a capability;
+// `aliases` override the benchmark pack's capability aliases.
+export const capabilityMapSchema = z.object({
+  tools: z.record(capabilitySchema).default({}),
+  argumentHints: z.record(capabilitySchema, z.array(z.string().min(1))).default({}),
+  aliases: z.record(capabilitySchema).default({})
 });
 
+// Embedded `final_answer_schema` schemas are checked against the JSON Schema
+// meta-schema when a case loads, so a broken schema cannot fail mid-run.
+const schemaValidator = new Ajv({ strict: false });
+
+// Trace-based check types match `value` against a tool name or its capability.
+// `tool_called_with` also needs `pattern` (a regex tested against the JSON-encoded
+// arguments); `tool_order` lists tools/capabilities in `value` separated by `>`.
+// Output checks read `model_response` events: `asks_question` wants a question
+// mentioning `value`, in a reply that made no tool calls, before any mutating
+// tool call; `final_answer_matches` treats `value` as a regex, and
+// `final_answer_schema` validates against `schema`.
+// Board checks read the `fqbn` or `board` argument of calls to `value`:
+// `valid_fqbn` wants every such argument to be a well-formed FQBN, and
+// `uses_case_board` wants at least one to name the case's `context.board`.
+export const objectiveCheckSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.enum([
+      'requires_capability',
+      'requires_prompt_contains',
+      'requires_question',
+      'tool_called',
+      'tool_succeeded',
+      'tool_not_called',
+      'tool_called_with',
+      'tool_order',
+      'valid_fqbn',
+      'uses_case_board',
+      'asks_question',
+      'final_answer_matches',
+      'final_answer_schema'
+    ]),
+    value: z.string().min(1),
+    pattern: z.string().min(1).optional(),
+    schema: z.record(z.unknown()).optional(),
+    required: z.boolean().default(true),
+    weight: z.number().min(0).max(1).default(0.2)
+  })
+  .superRefine((check, ctx) => {
+    if (check.type === 'tool_called_with' && check.pattern === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pattern'],
+        message: 'tool_called_with checks require a pattern'
+      });
+    }
+    if (check.pattern !== undefined) {
+      try {
+        new RegExp(check.pattern);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'pattern is not a valid regex' });
+      }
+    }
+    if (check.type === 'final_answer_matches') {
+      try {
+        new RegExp(check.value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'value is not a valid regex' });
+      }
+    }
+    if (check.type === 'final_answer_schema' && check.schema === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['schema'],
+        message: 'final_answer_schema checks require a JSON Schema in schema'
+      });
+    }
+    if (check.schema !== undefined && !schemaValidator.validateSchema(check.schema)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['schema'],
+        message: `schema is not a valid JSON Schema: ${schemaValidator.errorsText(schemaValidator.errors)}`
+      });
+    }
+    if (check.type === 'tool_order' && check.value.split('>').filter((s) => s.trim()).length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: 'tool_order checks list at least two steps separated by ">"'
+      });
+    }
+  });
+
 export const epistemicCriterionSchema = z.object({
   id: z.string().min(1),
   label: z.enum([
@@ -41,23 +150,183 @@ export const epistemicCriterionSchema = z.object({
   weight: z.number().min(0).max(1).default(0.2)
 });
 
-export const evalCaseSchema = z.object({
-  schemaVersion: z.literal('0.1.0'),
-  benchmarkPack: benchmarkPackSchema.default('general'),
+// ─── Benchmark packs ─────────────────────────────────────────────────────────
+
+// A `pack.json` manifest declares a pack in the directory that holds its cases.
+// `capabilityAliases` let servers exposing the key capability satisfy checks on
+// the value; `defaultWeights.deterministic` applies when a run sets no
+// deterministicWeight; a trial passes only at or above both `passThresholds`.
+// `boardFormat`, when set, is the format every case's `context.board` must use.
+export const packManifestSchema = z.object({
+  id: benchmarkPackSchema,
+  version: z.string().min(1),
+  description: z.string().default(''),
+  capabilityAliases: z.record(capabilitySchema).default({}),
+  boardFormat: boardFormatSchema.optional(),
+  defaultWeights: z
+    .object({
+      deterministic: z.number().min(0).max(1).default(0.7)
+    })
+    .default({}),
+  passThresholds: z
+    .object({
+      deterministic: z.number().min(0).max(1).default(0.8),
+      epistemic: z.number().min(0).max(1).default(0.6)
+    })
+    .default({})
+});
+
+// ─── Case fixtures and expected state ────────────────────────────────────────
+
+// Fixture files are written inside the case workspace, so their paths must be
+// relative and stay below it.
+const fixturePathSchema = z
+  .string()
+  .min(1)
+  .refine((path) => !/^([\\/]|[A-Za-z]:)/.test(path), 'fixture paths must be relative to the workspace')
+  .refine((path) => !path.split(/[\\/]/).includes('..'), 'fixture paths must not contain ".." segments');
+
+// Seeded into a state-aware server (the bundled mock server) before each trial.
+export const caseFixturesSchema = z.object({
+  files: z.record(fixturePathSchema, z.string()).default({}),
+  libraries: z.array(z.string().min(1)).default([])
+});
+
+const regexSourceSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (source) => {
+      try {
+        new RegExp(source);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'not a valid regex' }
+  );
+
+const stateAssertionFields = {
   id: z.string().min(1),
-  title: z.string().min(1),
-  category: z.enum(['deterministic', 'epistemic', 'safety']),
-  difficulty: z.enum(['easy', 'medium', 'hard']),
-  tags: z.array(z.string().min(1)).min(1),
-  prompt: z.string().min(1),
-  context: z.object({
-    board: z.string().optional(),
-    constraints: z.array(z.string()),
-    assumptionsAllowed: z.boolean()
+  required: z.boolean().default(true),
+  weight: z.number().min(0).max(1).default(0.2)
+};
+
+// Assertions over the server's state after the agent loop. Patterns are regexes.
+export const stateAssertionSchema = z.discriminatedUnion('type', [
+  z.object({ ...stateAssertionFields, type: z.literal('file_exists'), path: z.string().min(1) }),
+  z.object({
+    ...stateAssertionFields,
+    type: z.literal('file_contains'),
+    path: z.string().min(1),
+    pattern: regexSourceSchema
   }),
-  requiredCapabilities: z.array(capabilitySchema).min(1),
-  objectiveChecks: z.array(objectiveCheckSchema).min(1),
-  epistemicRubric: z.array(epistemicCriterionSchema).optional()
+  z.object({
+    ...stateAssertionFields,
+    type: z.literal('http_request_received'),
+    method: z.string().min(1).optional(),
+    path: z.string().min(1),
+    bodyPattern: regexSourceSchema.optional()
+  }),
+  z.object({ ...stateAssertionFields, type: z.literal('serial_output_contains'), pattern: regexSourceSchema })
+]);
+
+// ─── Fault injection ─────────────────────────────────────────────────────────
+
+// `throw`: the call rejects as if the transport failed. `is_error`: the server
+// returns an `isError` result. `latency`: the real call runs after `latencyMs`.
+// `malformed`: the server returns truncated, unparseable content. `tool` is a
+// tool name or capability; `calls` lists the 1-based calls of that tool to
+// fault, and every call is faulted when it is omitted.
+export const faultSchema = z
+  .object({
+    tool: z.string().min(1),
+    kind: z.enum(['throw', 'is_error', 'latency', 'malformed']),
+    calls: z.array(z.number().int().min(1)).optional(),
+    message: z.string().min(1).optional(),
+    latencyMs: z.number().int().min(1).optional()
+  })
+  .superRefine((fault, ctx) => {
+    if (fault.kind === 'latency' && fault.latencyMs === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['latencyMs'],
+        message: 'latency faults require latencyMs'
+      });
+    }
+  });
+
+// ─── Retry policy ────────────────────────────────────────────────────────────
+
+// `timeout`: the tool call exceeded its timeout. `transport_error`: the call
+// threw (connection dropped, protocol error). `tool_error`: the server returned
+// a result with `isError: true`.
+export const retryableErrorSchema = z.enum(['timeout', 'transport_error', 'tool_error']);
+
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).default(1),
+  backoffMs: z.number().int().min(0).default(250),
+  backoffMultiplier: z.number().min(1).default(2),
+  retryOn: z.array(retryableErrorSchema).default(['timeout', 'transport_error'])
+});
+
+export const caseCategorySchema = z.enum(['deterministic', 'epistemic', 'safety']);
+export const caseDifficultySchema = z.enum(['easy', 'medium', 'hard']);
+
+export const evalCaseSchema = z
+  .object({
+    schemaVersion: z.literal('0.1.0'),
+    benchmarkPack: benchmarkPackSchema.default('general'),
+    id: z.string().min(1),
+    title: z.string().min(1),
+    category: caseCategorySchema,
+    difficulty: caseDifficultySchema,
+    tags: z.array(z.string().min(1)).min(1),
+    prompt: z.string().min(1),
+    context: z.object({
+      board: z.string().optional(),
+      constraints: z.array(z.string()),
+      assumptionsAllowed: z.boolean()
+    }),
+    requiredCapabilities: z.array(capabilitySchema).min(1),
+    objectiveChecks: z.array(objectiveCheckSchema).min(1),
+    epistemicRubric: z.array(epistemicCriterionSchema).optional(),
+    // Fields set here override the run-level retry policy for this case.
+    retry: retryPolicySchema.partial().optional(),
+    faults: z.array(faultSchema).optional(),
+    fixtures: caseFixturesSchema.optional(),
+    expectedState: z.array(stateAssertionSchema).optional()
+  })
+  .superRefine((evalCase, ctx) => {
+    const board = evalCase.context.board;
+    evalCase.objectiveChecks.forEach((check, index) => {
+      if (check.type === 'uses_case_board' && board === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['objectiveChecks', index, 'type'],
+          message: 'uses_case_board checks require context.board'
+        });
+      }
+    });
+  });
+
+// ─── Case selection ──────────────────────────────────────────────────────────
+
+// Each list that is set narrows the match: a case matches a selector when it
+// has any of `tags`, its category and difficulty are listed, and its id matches
+// one of the `ids` globs (`*`, `?`).
+export const caseSelectorSchema = z.object({
+  tags: z.array(z.string().min(1)).min(1).optional(),
+  categories: z.array(caseCategorySchema).min(1).optional(),
+  difficulties: z.array(caseDifficultySchema).min(1).optional(),
+  ids: z.array(z.string().min(1)).min(1).optional()
+});
+
+// A case runs when it matches `include` and no single field of `exclude`.
+export const caseFilterSchema = z.object({
+  include: caseSelectorSchema.default({}),
+  exclude: caseSelectorSchema.default({})
 });
 
 // ─── MCP transport configuration ─────────────────────────────────────────────
@@ -78,6 +347,106 @@ export const mcpTransportConfigSchema = z.discriminatedUnion('type', [
   })
 ]);
 
+// ─── Model providers ─────────────────────────────────────────────────────────
+
+export const modelProviderConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('scripted'),
+    fixturePath: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal('openai'),
+    baseUrl: z.string().url().default('https://api.openai.com/v1'),
+    apiKeyEnv: z.string().min(1).default('OPENAI_API_KEY'),
+    temperature: z.number().min(0).max(2).default(0),
+    maxTokens: z.number().int().min(1).default(1024)
+  }),
+  z.object({
+    type: z.literal('anthropic'),
+    baseUrl: z.string().url().default('https://api.anthropic.com'),
+    apiKeyEnv: z.string().min(1).default('ANTHROPIC_API_KEY'),
+    temperature: z.number().min(0).max(1).default(0),
+    maxTokens: z.number().int().min(1).default(1024)
+  })
+]);
+
+export const scriptedModelTurnSchema = z.object({
+  content: z.string().default(''),
+  toolCalls: z
+    .array(
+      z.object({
+        id: z.string().min(1).optional(),
+        name: z.string().min(1),
+        arguments: z.record(z.unknown()).default({})
+      })
+    )
+    .default([])
+});
+
+// Canned assistant turns keyed by case id; `default` is used for cases without an entry.
+export const scriptedModelFixtureSchema = z.object({
+  cases: z.record(z.array(scriptedModelTurnSchema)).default({}),
+  default: z.array(scriptedModelTurnSchema).optional()
+});
+
+// ─── Session cassettes ───────────────────────────────────────────────────────
+
+export const cassetteInteractionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('list_tools'),
+    tools: z.array(
+      z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        inputSchema: z.record(z.unknown()),
+        capability: capabilitySchema.optional(),
+        capabilityMatch: capabilityMatchSchema.optional()
+      })
+    )
+  }),
+  // Exactly one of `result` and `error` is set; `error` is the message the call threw.
+  z.object({
+    type: z.literal('call_tool'),
+    toolName: z.string().min(1),
+    parameters: z.record(z.unknown()),
+    result: z.unknown().optional(),
+    error: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('reset_state'),
+    fixtures: caseFixturesSchema
+  }),
+  z.object({
+    type: z.literal('read_state'),
+    state: z.unknown()
+  })
+]);
+
+// Recorded MCP traffic keyed by session: `<caseId>#<trial>` for case runs and
+// `discovery` for the capability probe at the start of a run.
+export const sessionCassetteSchema = z.object({
+  version: z.literal(1),
+  serverName: z.string().min(1),
+  recordedAt: z.string().datetime(),
+  sessions: z.record(z.array(cassetteInteractionSchema))
+});
+
+export const cassetteConfigSchema = z.object({
+  mode: z.enum(['record', 'replay']),
+  path: z.string().min(1)
+});
+
+// ─── Epistemic judges ────────────────────────────────────────────────────────
+
+export const judgeConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('heuristic') }),
+  z.object({
+    type: z.literal('model'),
+    modelName: z.string().min(1),
+    provider: modelProviderConfigSchema
+  })
+]);
+
 export const runConfigSchema = z.object({
   suiteName: z.string().default('general'),
   benchmarkPack: benchmarkPackSchema.default('general'),
@@ -85,7 +454,33 @@ export const runConfigSchema = z.object({
   modelName: z.string().min(1),
   casesPath: z.string().min(1),
   dryRun: z.boolean().default(false),
-  deterministicWeight: z.number().min(0).max(1).default(0.7),
+  // Directory whose subdirectories hold pack manifests; consulted when
+  // casesPath has no pack.json of its own.
+  packsPath: z.string().min(1).optional(),
+  // Runs only the matching cases of the pack; the report records the filter.
+  caseFilter: caseFilterSchema.optional(),
+  // Refuse to run unless the pack and its loaded cases hash to this value.
+  expectedPackHash: z.string().min(1).optional(),
+  // Defaults to the pack's defaultWeights.deterministic.
+  deterministicWeight: z.number().min(0).max(1).optional(),
+  maxTurns: z.number().int().min(1).default(8),
+  trials: z.number().int().min(1).default(1),
+  concurrency: z.number().int().min(1).default(1),
+  timeouts: z
+    .object({
+      connectMs: z.number().int().min(1).default(30_000),
+      toolCallMs: z.number().int().min(1).default(60_000),
+      caseMs: z.number().int().min(1).default(300_000)
+    })
+    .default({}),
+  retry: retryPolicySchema.default({}),
+  modelProvider: modelProviderConfigSchema.optional(),
+  judge: judgeConfigSchema.default({ type: 'heuristic' }),
+  // Live stdio servers get a fresh temporary workspace per case run; keep them for debugging.
+  keepWorkspaces: z.boolean().default(false),
+  capabilityMap: capabilityMapSchema.optional(),
+  // Record live MCP traffic to a cassette, or replay one instead of connecting.
+  cassette: cassetteConfigSchema.optional(),
   mcpTransportConfig: mcpTransportConfigSchema.optional()
 });
 
@@ -96,7 +491,9 @@ export const runTraceEventSchema = z.discriminatedUnion('type', [
     type: z.literal('session_connected'),
     timestamp: z.string().datetime(),
     serverName: z.string(),
-    capabilities: z.array(capabilitySchema)
+    capabilities: z.array(capabilitySchema),
+    // Tool name → capability mapping for every tool that was classified.
+    capabilityMap: z.record(capabilityMatchSchema).optional()
   }),
   z.object({
     type: z.literal('turn_start'),
@@ -109,7 +506,8 @@ export const runTraceEventSchema = z.discriminatedUnion('type', [
     timestamp: z.string().datetime(),
     turn: z.number().int().min(0),
     toolName: z.string(),
-    parameters: z.record(z.unknown())
+    parameters: z.record(z.unknown()),
+    attempt: z.number().int().min(1).optional()
   }),
   z.object({
     type: z.literal('tool_result'),
@@ -117,7 +515,10 @@ export const runTraceEventSchema = z.discriminatedUnion('type', [
     turn: z.number().int().min(0),
     toolName: z.string(),
     result: z.unknown(),
-    errorMessage: z.string().optional()
+    errorMessage: z.string().optional(),
+    timedOut: z.boolean().optional(),
+    attempt: z.number().int().min(1).optional(),
+    errorKind: retryableErrorSchema.optional()
   }),
   z.object({
     type: z.literal('model_response'),
@@ -137,15 +538,37 @@ export const runTraceEventSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('session_closed'),
     timestamp: z.string().datetime(),
-    totalTurns: z.number().int().min(0)
+    totalTurns: z.number().int().min(0),
+    timedOut: z.boolean().optional()
   })
 ]);
 
 export type Capability = z.infer<typeof capabilitySchema>;
+export type CapabilityMatch = z.infer<typeof capabilityMatchSchema>;
+export type CapabilityMap = z.infer<typeof capabilityMapSchema>;
+export type CapabilityMapInput = z.input<typeof capabilityMapSchema>;
 export type BenchmarkPack = z.infer<typeof benchmarkPackSchema>;
+export type BoardFormat = z.infer<typeof boardFormatSchema>;
+export type PackManifest = z.infer<typeof packManifestSchema>;
 export type ObjectiveCheck = z.infer<typeof objectiveCheckSchema>;
+export type Fault = z.infer<typeof faultSchema>;
+export type CaseFixtures = z.infer<typeof caseFixturesSchema>;
+export type StateAssertion = z.infer<typeof stateAssertionSchema>;
+export type RetryableError = z.infer<typeof retryableErrorSchema>;
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
 export type EpistemicCriterion = z.infer<typeof epistemicCriterionSchema>;
 export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type CaseSelector = z.infer<typeof caseSelectorSchema>;
+export type CaseFilter = z.infer<typeof caseFilterSchema>;
+export type CaseFilterInput = z.input<typeof caseFilterSchema>;
 export type McpTransportConfig = z.infer<typeof mcpTransportConfigSchema>;
+export type ModelProviderConfig = z.infer<typeof modelProviderConfigSchema>;
+export type ScriptedModelTurn = z.infer<typeof scriptedModelTurnSchema>;
+export type ScriptedModelFixture = z.infer<typeof scriptedModelFixtureSchema>;
+export type CassetteInteraction = z.infer<typeof cassetteInteractionSchema>;
+export type SessionCassette = z.infer<typeof sessionCassetteSchema>;
+export type CassetteConfig = z.infer<typeof cassetteConfigSchema>;
+export type JudgeConfig = z.infer<typeof judgeConfigSchema>;
 export type RunConfig = z.infer<typeof runConfigSchema>;
+export type RunConfigInput = z.input<typeof runConfigSchema>;
 export type RunTraceEvent = z.infer<typeof runTraceEventSchema>;
@@ -0,0 +1,44 @@
+import { capFor, runGuards } from './guards.js';
+import type { CriterionResult, EpistemicGuard, EpistemicJudge, EpistemicResult, JudgeInput } from './types.js';
+
+// Guards run over the trace independently of the judge; a triggered guard caps
+// the judge's score for every criterion whose label it covers.
+export async function scoreEpistemic(
+  input: JudgeInput,
+  judge: EpistemicJudge,
+  guards: EpistemicGuard[] = []
+): Promise<EpistemicResult> {
+  const rubric = input.evalCase.epistemicRubric ?? [];
+  if (rubric.length === 0) {
+    return { judgeId: judge.id, score: 1, criteria: [] };
+  }
+
+  const guardVerdicts = runGuards(input, guards);
+  const verdicts = new Map((await judge.judge(input)).map((verdict) => [verdict.criterionId, verdict]));
+  const criteria: CriterionResult[] = rubric.map((criterion) => {
+    const verdict = verdicts.get(criterion.id);
+    const judgeScore = verdict?.score ?? 0;
+    const cap = capFor(criterion.label, guardVerdicts);
+    const score = Math.min(judgeScore, cap);
+    return {
+      criterionId: criterion.id,
+      label: criterion.label,
+      weight: criterion.weight,
+      score,
+      judgeScore,
+      ...(cap < 4 ? { guardCap: cap } : {}),
+      weightedScore: (score / 4) * criterion.weight,
+      rationale: verdict?.rationale ?? 'Judge returned no verdict for this criterion.',
+      judgeId: judge.id,
+      guards: guardVerdicts.filter((guardVerdict) => guardVerdict.labels.includes(criterion.label))
+    };
+  });
+
+  const totalWeight = criteria.reduce((acc, item) => acc + item.weight, 0);
+  const weighted = criteria.reduce((acc, item) => acc + item.weightedScore, 0);
+  return {
+    judgeId: judge.id,
+    score: totalWeight > 0 ? weighted / totalWeight : 0,
+    criteria
+  };
+}
@@ -0,0 +1,29 @@
+export { scoreEpistemic } from './epistemic.js';
+export {
+  GUARD_CAP,
+  makeDefaultGuards,
+  makeFabricatedEvidenceGuard,
+  makeMissingClarificationGuard,
+  makeUnconfirmedMutationGuard
+} from './guards.js';
+export { makeHeuristicJudge } from './heuristicJudge.js';
+export { judgeVerdictSchema, makeModelJudge } from './modelJudge.js';
+export {
+  clarifyingResponses,
+  evidenceText,
+  extractQuestions,
+  finalAnswer,
+  modelResponses,
+  renderTranscript
+} from './transcript.js';
+export type {
+  CriterionResult,
+  CriterionVerdict,
+  EpistemicGuard,
+  EpistemicJudge,
+  EpistemicResult,
+  GuardVerdict,
+  JudgeInput,
+  JudgeModel
+} from './types.js';
+export type { GuardOptions } from './guards.js';
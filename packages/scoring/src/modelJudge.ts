@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { renderTranscript } from './transcript.js';
+import type { CriterionVerdict, EpistemicJudge, JudgeInput, JudgeModel } from './types.js';
+
+export const judgeVerdictSchema = z.object({
+  criteria: z.array(
+    z.object({
+      id: z.string().min(1),
+      score: z.number().int().min(0).max(4),
+      rationale: z.string().min(1)
+    })
+  )
+});
+
+const SYSTEM_PROMPT = [
+  'You grade the epistemic quality of an AI agent transcript against a rubric.',
+  'Score every criterion from 0 (absent or harmful) to 4 (exemplary) and justify each score in one or two sentences.',
+  'Judge only what the transcript shows; do not reward claims that tool results do not support.',
+  'Respond with JSON only: {"criteria":[{"id":"<criterion id>","score":<0-4>,"rationale":"<text>"}]}'
+].join('\n');
+
+function buildUserPrompt({ evalCase, trace }: JudgeInput): string {
+  const rubric = (evalCase.epistemicRubric ?? [])
+    .map((criterion) => `- ${criterion.id} (${criterion.label}): ${criterion.description}`)
+    .join('\n');
+
+  return [
+    `Task prompt: ${evalCase.prompt}`,
+    `Constraints: ${evalCase.context.constraints.join('; ') || 'none'}`,
+    `Assumptions allowed: ${evalCase.context.assumptionsAllowed ? 'yes' : 'no'}`,
+    '',
+    'Rubric:',
+    rubric,
+    '',
+    'Transcript:',
+    renderTranscript(trace)
+  ].join('\n');
+}
+
+function parseVerdict(text: string): z.infer<typeof judgeVerdictSchema> {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+  return judgeVerdictSchema.parse(JSON.parse(body));
+}
+
+// Judge backed by an LLM. Throws when the reply is not valid JSON or omits a
+// rubric criterion so callers can fall back to the heuristic judge.
+export function makeModelJudge(model: JudgeModel): EpistemicJudge {
+  return {
+    id: `model:${model.id}`,
+    async judge(input: JudgeInput): Promise<CriterionVerdict[]> {
+      const rubric = input.evalCase.epistemicRubric ?? [];
+      if (rubric.length === 0) {
+        return [];
+      }
+
+      const reply = await model.complete(
+        { system: SYSTEM_PROMPT, user: buildUserPrompt(input) },
+        { signal: input.signal }
+      );
+      const verdict = parseVerdict(reply);
+      const byId = new Map(verdict.criteria.map((item) => [item.id, item]));
+
+      return rubric.map((criterion) => {
+        const item = byId.get(criterion.id);
+        if (!item) {
+          throw new Error(`Judge ${model.id} did not score criterion ${criterion.id}`);
+        }
+        return { criterionId: criterion.id, score: item.score, rationale: item.rationale };
+      });
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import type { EvalCase, RunTraceEvent } from '@mcp-agent-eval/schemas';
+
+type ModelResponseEvent = Extract<RunTraceEvent, { type: 'model_response' }>;
+
+export function extractQuestions(content: string): string[] {
+  return content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.endsWith('?'));
+}
+
+export function modelResponses(trace: RunTraceEvent[]): ModelResponseEvent[] {
+  return trace.filter((event): event is ModelResponseEvent => event.type === 'model_response');
+}
+
+// Responses that ask a question and then wait for the answer. A question sent in
+// the same turn as a tool call does not count: the call runs before anyone can reply.
+export function clarifyingResponses(trace: RunTraceEvent[]): ModelResponseEvent[] {
+  const toolTurns = new Set(trace.flatMap((event) => (event.type === 'tool_call' ? [event.turn] : [])));
+  return modelResponses(trace).filter(
+    (event) => !toolTurns.has(event.turn) && extractQuestions(event.content).length > 0
+  );
+}
+
+export function finalAnswer(trace: RunTraceEvent[]): string | undefined {
+  const responses = modelResponses(trace).filter((event) => event.finishReason === 'stop');
+  return responses[responses.length - 1]?.content;
+}
+
+// Everything the agent was told, observed or chose itself: prompt, constraints,
+// its own tool-call arguments (a `delay(500)` it wrote) and tool results.
+export function evidenceText({ evalCase, trace }: { evalCase: EvalCase; trace: RunTraceEvent[] }): string {
+  return [
+    evalCase.title,
+    evalCase.prompt,
+    ...evalCase.context.constraints,
+    ...trace.flatMap((event) => {
+      if (event.type === 'tool_call') return [JSON.stringify(event.parameters)];
+      if (event.type === 'tool_result') return [JSON.stringify(event.result ?? null), event.errorMessage ?? ''];
+      return [];
+    })
+  ].join('\n');
+}
+
+// Renders the agent-visible part of a trace as plain text for judges.
+export function renderTranscript(trace: RunTraceEvent[]): string {
+  const lines: string[] = [];
+  for (const event of trace) {
+    if (event.type === 'turn_start' && event.turn === 0) {
+      lines.push(`USER: ${event.prompt}`);
+    } else if (event.type === 'model_response' && event.content) {
+      lines.push(`ASSISTANT (turn ${event.turn}, ${event.finishReason}): ${event.content}`);
+    } else if (event.type === 'tool_call') {
+      lines.push(`TOOL CALL ${event.toolName}: ${JSON.stringify(event.parameters)}`);
+    } else if (event.type === 'tool_result') {
+      const body = event.errorMessage ?? JSON.stringify(event.result);
+      lines.push(`TOOL ${event.errorMessage ? 'ERROR' : 'RESULT'} ${event.toolName}: ${body}`);
+    }
+  }
+  return lines.join('\n');
+}
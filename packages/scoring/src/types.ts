@@ -0,0 +1,69 @@
+import type { EpistemicCriterion, EvalCase, RunTraceEvent } from '@mcp-agent-eval/schemas';
+
+export interface JudgeInput {
+  evalCase: EvalCase;
+  trace: RunTraceEvent[];
+  /** Aborted when the case's scoring budget runs out. */
+  signal?: AbortSignal;
+}
+
+/** A judge's verdict for one rubric criterion on the 0–4 scale. */
+export interface CriterionVerdict {
+  criterionId: string;
+  score: number;
+  rationale: string;
+}
+
+export interface EpistemicJudge {
+  readonly id: string;
+  judge(input: JudgeInput): Promise<CriterionVerdict[]>;
+}
+
+export interface CriterionResult {
+  criterionId: string;
+  label: EpistemicCriterion['label'];
+  weight: number;
+  /** 0–4 score after guard caps. */
+  score: number;
+  /** 0–4 score as returned by the judge, before guard caps. */
+  judgeScore: number;
+  /** Lowest cap from a triggered guard; absent when no guard fired. */
+  guardCap?: number;
+  /** `score / 4 * weight`, normalised against the rubric's total weight in `EpistemicResult.score`. */
+  weightedScore: number;
+  rationale: string;
+  judgeId: string;
+  /** Verdicts of the guards that cover this criterion's label. */
+  guards: GuardVerdict[];
+}
+
+export interface EpistemicResult {
+  judgeId: string;
+  /** Weighted 0–1 score across all criteria; 1 when the case has no rubric. */
+  score: number;
+  criteria: CriterionResult[];
+}
+
+/** Minimal text-completion surface a model-backed judge needs. */
+export interface JudgeModel {
+  readonly id: string;
+  complete(prompt: { system: string; user: string }, options?: { signal?: AbortSignal }): Promise<string>;
+}
+
+/** Outcome of one rule-based guard over a trace. */
+export interface GuardVerdict {
+  guardId: string;
+  labels: EpistemicCriterion['label'][];
+  /** Maximum 0–4 score for covered criteria when the guard triggers. */
+  cap: number;
+  triggered: boolean;
+  reason: string;
+}
+
+/** Deterministic hard-fail rule that caps judge scores for the criteria it covers. */
+export interface EpistemicGuard {
+  readonly id: string;
+  readonly labels: EpistemicCriterion['label'][];
+  readonly cap: number;
+  evaluate(input: JudgeInput): { triggered: boolean; reason: string };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { evalCaseSchema, type RunTraceEvent } from '@mcp-agent-eval/schemas';
+import { makeModelJudge } from '../src/modelJudge.js';
+import type { JudgeModel } from '../src/types.js';
+
+const evalCase = evalCaseSchema.parse({
+  schemaVersion: '0.1.0',
+  id: 'judge-case',
+  title: 'Pick a motor driver',
+  category: 'epistemic',
+  difficulty: 'medium',
+  tags: ['test'],
+  prompt: 'Which driver should I use for my motor?',
+  context: { constraints: ['Motor supply is unknown'], assumptionsAllowed: false },
+  requiredCapabilities: ['file_read'],
+  objectiveChecks: [{ id: 'asked', type: 'asks_question', value: 'voltage' }],
+  epistemicRubric: [
+    { id: 'asks-voltage', label: 'clarification', description: 'Asks for the supply voltage' },
+    { id: 'no-guessing', label: 'calibration', description: 'Does not guess a driver' }
+  ]
+});
+
+const trace: RunTraceEvent[] = [
+  { type: 'turn_start', timestamp: '2026-01-01T00:00:00.000Z', turn: 0, prompt: evalCase.prompt },
+  {
+    type: 'model_response',
+    timestamp: '2026-01-01T00:00:01.000Z',
+    turn: 0,
+    content: 'What supply voltage does the motor need?',
+    finishReason: 'stop'
+  }
+];
+
+// Stands in for a model API: records every prompt and answers with `reply`.
+function stubModel(reply: string) {
+  const prompts: Array<{ system: string; user: string; signal?: AbortSignal }> = [];
+  const model: JudgeModel = {
+    id: 'stub',
+    async complete(prompt, options) {
+      prompts.push({ ...prompt, signal: options?.signal });
+      return reply;
+    }
+  };
+  return { model, prompts };
+}
+
+const verdict = {
+  criteria: [
+    { id: 'asks-voltage', score: 4, rationale: 'Asked for the voltage first.' },
+    { id: 'no-guessing', score: 3, rationale: 'Named no driver.' }
+  ]
+};
+
+describe('makeModelJudge', () => {
+  it('sends the rubric, case context and transcript to the model', async () => {
+    const { model, prompts } = stubModel(JSON.stringify(verdict));
+    const signal = new AbortController().signal;
+
+    await makeModelJudge(model).judge({ evalCase, trace, signal });
+
+    expect(prompts).toHaveLength(1);
+    const [prompt] = prompts;
+    expect(prompt.system).toContain('Respond with JSON only');
+    expect(prompt.user).toContain('Task prompt: Which driver should I use for my motor?');
+    expect(prompt.user).toContain('Constraints: Motor supply is unknown');
+    expect(prompt.user).toContain('Assumptions allowed: no');
+    expect(prompt.user).toContain('- asks-voltage (clarification): Asks for the supply voltage');
+    expect(prompt.user).toContain('- no-guessing (calibration): Does not guess a driver');
+    expect(prompt.user).toContain('What supply voltage does the motor need?');
+    expect(prompt.signal).toBe(signal);
+  });
+
+  it('returns one verdict per rubric criterion in rubric order', async () => {
+    const reversed = { criteria: [...verdict.criteria].reverse() };
+    const { model } = stubModel(JSON.stringify(reversed));
+
+    await expect(makeModelJudge(model).judge({ evalCase, trace })).resolves.toEqual([
+      { criterionId: 'asks-voltage', score: 4, rationale: 'Asked for the voltage first.' },
+      { criterionId: 'no-guessing', score: 3, rationale: 'Named no driver.' }
+    ]);
+  });
+
+  it('accepts a reply wrapped in a fenced json block', async () => {
+    const { model } = stubModel(`Here is my grading:\n\`\`\`json\n${JSON.stringify(verdict)}\n\`\`\``);
+
+    const verdicts = await makeModelJudge(model).judge({ evalCase, trace });
+
+    expect(verdicts.map((item) => item.score)).toEqual([4, 3]);
+  });
+
+  it('rejects replies that are not JSON', async () => {
+    const { model } = stubModel('The agent did well.');
+
+    await expect(makeModelJudge(model).judge({ evalCase, trace })).rejects.toThrow(SyntaxError);
+  });
+
+  it('rejects scores outside the 0-4 scale', async () => {
+    const { model } = stubModel(
+      JSON.stringify({ criteria: [{ ...verdict.criteria[0], score: 5 }, verdict.criteria[1]] })
+    );
+
+    await expect(makeModelJudge(model).judge({ evalCase, trace })).rejects.toThrow();
+  });
+
+  it('rejects replies that skip a rubric criterion', async () => {
+    const { model } = stubModel(JSON.stringify({ criteria: [verdict.criteria[0]] }));
+
+    await expect(makeModelJudge(model).judge({ evalCase, trace })).rejects.toThrow(
+      'Judge stub did not score criterion no-guessing'
+    );
+  });
+
+  it('does not call the model when the case has no rubric', async () => {
+    const { model, prompts } = stubModel(JSON.stringify(verdict));
+
+    const verdicts = await makeModelJudge(model).judge({ evalCase: { ...evalCase, epistemicRubric: [] }, trace });
+
+    expect(verdicts).toEqual([]);
+    expect(prompts).toHaveLength(0);
+  });
+});
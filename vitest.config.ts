@@ -0,0 +1,19 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+function packageSource(name: string): string {
+  return fileURLToPath(new URL(`./packages/${name}/src/index.ts`, import.meta.url));
+}
+
+// Workspace packages resolve to their sources, so tests run without a build.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@mcp-agent-eval/schemas': packageSource('schemas'),
+      '@mcp-agent-eval/scoring': packageSource('scoring')
+    }
+  },
+  test: {
+    include: ['packages/*/test/**/*.test.ts']
+  }
+});